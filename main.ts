@@ -1,13 +1,46 @@
 import { Server } from "npm:@modelcontextprotocol/sdk/server/index.js";
 import { SSEServerTransport } from "npm:@modelcontextprotocol/sdk/server/sse.js";
+import { StdioServerTransport } from "npm:@modelcontextprotocol/sdk/server/stdio.js";
+import { StreamableHTTPServerTransport } from "npm:@modelcontextprotocol/sdk/server/streamableHttp.js";
 import {
   ListToolsRequestSchema,
   CallToolRequestSchema,
   CallToolRequest,
   CallToolResult,
   Tool,
+  ContentBlock,
+  ServerNotification,
+  LoggingLevel,
+  ProgressToken,
+  SetLevelRequestSchema,
+  SetLevelRequest,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  ReadResourceRequest,
+  ReadResourceResult,
+  Resource,
+  ResourceTemplate,
+  SubscribeRequestSchema,
+  SubscribeRequest,
+  UnsubscribeRequestSchema,
+  UnsubscribeRequest,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  GetPromptRequest,
+  GetPromptResult,
+  Prompt,
+  McpError,
+  ErrorCode,
+  isInitializeRequest,
 } from "npm:@modelcontextprotocol/sdk/types.js";
+// @ts-types="npm:@types/express@5"
 import express from "npm:express";
+import { Command, Option } from "commander";
+import YAML from "yaml";
+import JSON5 from "json5";
+import * as TOML from "smol-toml";
+import process from "node:process";
 
 // ==================== 类型定义 ====================
 
@@ -17,793 +50,8063 @@ import express from "npm:express";
  */
 interface ToolHandler {
   tool: Tool;
-  handler: (args: Record<string, unknown>) => Promise<CallToolResult>;
+  handler: (args: Record<string, unknown>, context: ToolContext) => Promise<CallToolResult>;
+  /** 默认调用限制，可被配置文件覆盖 */
+  limits?: ToolLimits;
+  /** 额度分组，同组工具共用调用计数，默认为工具名 */
+  quotaGroup?: string;
+  /** 审计日志的脱敏规则 */
+  audit?: ToolAuditPolicy;
 }
 
-// ==================== 辅助函数 ====================
-function generateShortKey() {
-  const chars = 'abcdefghijklmnopqrstuvwxyz0123456789';
-  let result = '';
-  for (let i = 0; i < 6; i++) {
-    result += chars.charAt(Math.floor(Math.random() * chars.length));
-  }
-  return result;
+/**
+ * 工具的审计脱敏规则，补充按参数名识别的通用规则
+ */
+interface ToolAuditPolicy {
+  /** 需要打码的参数名 */
+  redactArgs?: string[];
+  /** 不记录结果内容（例如结果中包含密码或密钥） */
+  omitResult?: boolean;
 }
 
-async function uploadFile(base64: string, filename: string, commitMessage: string) {
-  console.log("upload file")
-  const kv = await Deno.openKv();
-  const token = await kv.get(["github-token"]);
-  if (!token) {
-    return createTextResponse("未设置 github token", true);
-  }
-  const repo = await kv.get(["github-repo"]);
-  if (!repo) {
-    return createTextResponse("未设置 github repo", true);
-  }
-  const res = await fetch(`https://api.github.com/repos/${repo}/contents/${encodeURIComponent(filename)}`, {
-    method: "PUT",
-    headers: {
-      "Content-Type": "application/json",
-      "Authorization": `Bearer ${token}`,
-    },
-    body: JSON.stringify({
-      message: `Upload image via MCP tool (${commitMessage})`,
-      content: base64,
-      branch: "master",
-    }),
-  });
-  if (!res.ok) {
-    console.error(await res.text());
-    console.error('---------------------------------------')
-    throw new Error(`Failed to upload file: ${res.status} ${res.statusText}`);
-  }
-  const data = await res.json();
-  return data.content.download_url;
+/**
+ * 工具调用限制，null 表示不限制
+ */
+interface ToolLimits {
+  /** 每分钟调用次数 */
+  perMinute?: number | null;
+  /** 每天调用次数（UTC 零点重置） */
+  perDay?: number | null;
+  /** 同时进行的调用数 */
+  concurrent?: number | null;
 }
+
 /**
- * 创建文本响应
- * @param text 响应文本
- * @param isError 是否为错误响应
+ * 超出调用限制的详情
  */
-function createTextResponse(text: string, isError = false): CallToolResult {
-  return {
-    content: [{ type: "text", text }],
-    isError,
-  };
+interface QuotaDenial {
+  limit: keyof ToolLimits;
+  max: number;
+  /** 建议的重试等待时间（秒） */
+  retryAfter: number;
 }
 
-// ==================== 工具注册系统 ====================
+/**
+ * 调用方传入的上下文，请求 ID、日志记录器和进度报告由 ToolRegistry 生成
+ */
+type ToolCallOrigin = Omit<ToolContext, "requestId" | "logger" | "reportProgress"> & {
+  /** 发送与本次请求关联的通知 */
+  sendNotification: (notification: ServerNotification) => Promise<void>;
+  /** 客户端通过 logging/setLevel 选择的级别，未选择时不向客户端转发日志 */
+  clientLogLevel?: LoggingLevel;
+};
 
 /**
- * 工具注册表
- * 管理所有可用工具及其处理逻辑
+ * 提示词参数的取值类型
+ * MCP 协议中参数均以字符串传递，渲染前按类型校验和转换
  */
-class ToolRegistry {
-  private tools: Map<string, ToolHandler> = new Map();
+type PromptArgumentType = "string" | "number" | "boolean" | "json";
 
-  /**
-   * 注册单个工具
-   */
-  register(toolHandler: ToolHandler): void {
-    this.tools.set(toolHandler.tool.name, toolHandler);
-  }
+/**
+ * 提示词参数定义
+ */
+interface PromptArgumentDefinition {
+  name: string;
+  description?: string;
+  required?: boolean;
+  type?: PromptArgumentType;
+  /** 可选值列表 */
+  enum?: string[];
+  /** 未传入时使用的默认值 */
+  default?: string;
+}
 
-  /**
-   * 批量注册工具
-   */
-  registerAll(toolHandlers: ToolHandler[]): void {
-    for (const handler of toolHandlers) {
-      this.register(handler);
-    }
-  }
+/**
+ * 提示词模板定义
+ * template 中用 {{name}} 引用参数，{{#name}}...{{/name}} 包裹的内容仅在参数非空时保留
+ */
+interface PromptDefinition {
+  name: string;
+  title?: string;
+  description: string;
+  arguments: PromptArgumentDefinition[];
+  template: string;
+  /** 模板来源文件，内置模板为空 */
+  source?: string;
+}
 
+/**
+ * 工具调用上下文
+ */
+interface ToolContext {
+  /** 调用方客户端标识，配置和数据按此隔离 */
+  clientId: string;
+  /** 认证后的调用方身份 */
+  identity: ClientIdentity;
+  /** 本次调用的请求 ID */
+  requestId: string;
+  /** 所属会话 ID，stdio 模式下为空 */
+  sessionId?: string;
+  /** 已绑定请求 ID、会话 ID 和工具名的日志记录器 */
+  logger: Logger;
+  /** 客户端取消请求时触发，传给外部请求以便中止 */
+  signal: AbortSignal;
+  /** 客户端请求进度通知时提供的令牌 */
+  progressToken?: ProgressToken;
   /**
-   * 获取所有已注册工具的定义
+   * 向客户端报告进度，客户端未提供 progressToken 时忽略
+   * @param progress 当前进度，每次调用必须递增
+   * @param total 总量，未知时省略
+   * @param message 当前阶段的说明
    */
-  getTools(): Tool[] {
-    return Array.from(this.tools.values()).map(th => th.tool);
-  }
+  reportProgress(progress: number, total?: number, message?: string): Promise<void>;
+}
 
-  /**
-   * 处理工具调用请求
-   */
-  async handleToolCall(
-    name: string,
-    args: Record<string, unknown>
-  ): Promise<CallToolResult> {
-    const toolHandler = this.tools.get(name);
-    if (!toolHandler) return createTextResponse(`未知工具: ${name}`, true);
+/**
+ * 日志级别
+ */
+type LogLevel = "debug" | "info" | "warn" | "error";
 
-    try {
-      return await toolHandler.handler(args);
-    } catch (error: unknown) {
-      return createTextResponse(`工具执行错误: ${error instanceof Error ? error.message : String(error)}`, true);
-    }
-  }
+/**
+ * 结构化日志记录器，每条日志输出为一行 JSON
+ */
+interface Logger {
+  debug(message: string, fields?: Record<string, unknown>): void;
+  info(message: string, fields?: Record<string, unknown>): void;
+  warn(message: string, fields?: Record<string, unknown>): void;
+  error(message: string, fields?: Record<string, unknown>): void;
+  /** 创建附带固定字段的子记录器 */
+  child(fields: Record<string, unknown>): Logger;
 }
 
-// ==================== 工具实现 ====================
-
 /**
- * 可用工具集合
+ * 认证方式
+ * - api-key: HTTP 请求必须携带有效的 API 密钥
+ * - none: 不认证，客户端标识取自 x-client-id 头或 client 查询参数
  */
-const TOOLS: ToolHandler[] = [
-  {
-    tool: {
-      name: "deploy-to-tiny-server",
-      description: "部署到 Tiny Server",
-      inputSchema: {
-        type: "object",
-        properties: {
-          content: {
-            type: "string",
-            description: "要发布的内容"
-          },
-          suffix: {
-            type: "string",
-            description: "URL 后缀，例如 '.md' '.gist' '.html' 或空"
-          }
-        },
-        required: ["content", "suffix"],
-      },
-    },
-    handler: async (args: Record<string, unknown>): Promise<CallToolResult> => {
-      const content = args.content as string;
-      const suffix = args.suffix as string;
+type AuthMode = "api-key" | "none";
 
-      try {
-        const key = generateShortKey();
-        const res = await fetch("https://note.linkof.link/set", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json"
-          },
-          body: JSON.stringify({ value: content, key }),
-        });
+/**
+ * 调用方身份
+ */
+interface ClientIdentity {
+  clientId: string;
+  /** 使用的 API 密钥 ID，未认证时为空 */
+  keyId?: string;
+  /** API 密钥标签 */
+  label?: string;
+  /** 是否可以管理 API 密钥 */
+  admin: boolean;
+  /** 调用额度的计数对象，省略时使用 clientId */
+  quotaSubject?: string;
+}
 
-        if (!res.ok) {
-          const errorText = await res.text();
-          console.error("Failed to publish:", errorText);
-          throw new Error(`Failed to publish: ${res.status} ${res.statusText}`);
-        }
+/**
+ * KV 中存储的 API 密钥记录，只保存密钥的 SHA-256 散列
+ */
+interface ApiKeyRecord {
+  id: string;
+  hash: string;
+  label: string;
+  /** 密钥对应的客户端标识，配置和数据按此隔离 */
+  clientId: string;
+  admin: boolean;
+  createdAt: number;
+  lastUsedAt?: number;
+  revokedAt?: number;
+}
 
-        const url = `https://note.linkof.link/${key}${suffix}`;
-        console.log("Published to:", url);
-        return createTextResponse(url);
-      } catch (error) {
-        return createTextResponse(`发布失败: ${error instanceof Error ? error.message : String(error)}`, true);
-      }
-    }
-  },
-  // 日期时间格式化
-  {
-    tool: {
-      name: "formatDateTime",
-      description: "格式化日期时间",
-      inputSchema: {
-        type: "object",
-        properties: {
-          format: {
-            type: "string",
-            description: "格式字符串，例如 'YYYY-MM-DD HH:mm:ss'。支持的标记: YYYY(年), MM(月), DD(日), HH(时), mm(分), ss(秒)"
-          },
-          timestamp: {
-            type: "number",
-            description: "可选的时间戳（毫秒）。默认为当前时间"
-          },
-        },
-        required: ["format"],
-      },
-    },
-    handler: async (args: Record<string, unknown>): Promise<CallToolResult> => {
-      const format = args.format as string;
-      const timestamp = args.timestamp as number || Date.now();
+/**
+ * 配置项定义
+ */
+interface ConfigKeyDefinition {
+  description: string;
+  /** 对应的环境变量名，作为后备来源 */
+  env: string;
+  /** 是否为密钥类配置（加密存储、展示时打码） */
+  secret: boolean;
+  /** 仅允许通过环境变量或配置文件设置，客户端不可修改 */
+  serverOnly?: boolean;
+  /** 客户端设置的值只在该配置项同样由客户端设置时生效，否则使用服务器级的值 */
+  boundTo?: string;
+  /** 默认值 */
+  default?: string;
+}
 
-      try {
-        const date = new Date(timestamp);
+/**
+ * 配置文件结构
+ */
+interface ServerConfig {
+  /** 全局配置值，优先级低于客户端设置和环境变量 */
+  config?: Partial<Record<ConfigKey, string>>;
+  /** 工具调用限制，覆盖工具的默认值 */
+  limits?: {
+    /** 按工具名设置，对所有客户端生效 */
+    tools?: Record<string, ToolLimits>;
+    /** 按客户端标识和工具名设置，优先级最高 */
+    clients?: Record<string, Record<string, ToolLimits>>;
+  };
+  /** 工具启用与定制，对所有客户端生效 */
+  tools?: {
+    /** 只启用列出的工具（包括插件工具），省略时全部启用 */
+    enabled?: string[];
+    /** 禁用的工具，优先于 enabled */
+    disabled?: string[];
+    /** 按工具名覆盖描述和参数默认值 */
+    overrides?: Record<string, ToolOverride>;
+  };
+  /** 命名的工具配置档，限制客户端可见和可调用的工具 */
+  profiles?: Record<string, ToolProfile>;
+  /** 按客户端标识指定配置档 */
+  clientProfiles?: Record<string, string>;
+  /** 未在 clientProfiles 中指定的客户端使用的配置档，省略时不限制 */
+  defaultProfile?: string;
+  /** 出站 HTTP 请求的代理、超时和重试设置 */
+  http?: Omit<HttpClientOptions, "fetch">;
+  /** 审计日志保留策略 */
+  audit?: {
+    /** 保留天数，默认 90 */
+    retentionDays?: number;
+    /** 最多保留的记录数，超出时删除最旧的记录 */
+    maxRecords?: number;
+  };
+}
 
-        if (isNaN(date.getTime())) {
-          return createTextResponse(`无效的时间戳: ${timestamp}`, true);
-        }
+/**
+ * 配置文件中对单个工具的覆盖
+ */
+interface ToolOverride {
+  description?: string;
+  /** 参数默认值，设置后该参数变为可选 */
+  defaults?: Record<string, unknown>;
+}
 
-        const formatMap: Record<string, string> = {
-          'YYYY': date.getFullYear().toString(),
-          'MM': (date.getMonth() + 1).toString().padStart(2, '0'),
-          'DD': date.getDate().toString().padStart(2, '0'),
-          'HH': date.getHours().toString().padStart(2, '0'),
-          'mm': date.getMinutes().toString().padStart(2, '0'),
-          'ss': date.getSeconds().toString().padStart(2, '0'),
-        };
+/**
+ * 工具配置档
+ */
+interface ToolProfile {
+  description?: string;
+  /** 可用的工具，省略时为所有已启用的工具 */
+  tools?: string[];
+  /** 排除的工具，优先于 tools */
+  exclude?: string[];
+}
 
-        let result = format;
-        for (const [token, value] of Object.entries(formatMap)) {
-          result = result.replace(new RegExp(token, 'g'), value);
-        }
+/**
+ * 出站请求的目标服务，用于区分超时和重试设置
+ */
+type HttpService = "github" | "tiny-server" | "gemini" | "openai" | "download";
 
-        return createTextResponse(result);
-      } catch (error) {
-        return createTextResponse(`日期格式化错误: ${error instanceof Error ? error.message : String(error)}`, true);
-      }
-    }
-  },
+/**
+ * 单个服务的出站请求设置
+ */
+interface HttpServiceOptions {
+  /** 单次请求的超时时间（毫秒），包括读取响应体 */
+  timeoutMs: number;
+  /** 失败后的最大重试次数 */
+  retries: number;
+}
 
-  // JSON 格式化与验证
-  {
-    tool: {
-      name: "formatJSON",
-      description: "格式化和验证 JSON 字符串",
-      inputSchema: {
-        type: "object",
-        properties: {
-          json: { type: "string", description: "要格式化的 JSON 字符串" },
-          indent: { type: "number", description: "缩进空格数，默认为 2" },
-        },
-        required: ["json"],
-      },
-    },
-    handler: async (args: Record<string, unknown>): Promise<CallToolResult> => {
-      const jsonStr = args.json as string;
-      const indent = (args.indent as number) || 2;
+/**
+ * 出站 HTTP 客户端选项
+ */
+export interface HttpClientOptions {
+  /** 代理地址，省略时由 Deno 按 HTTPS_PROXY、NO_PROXY 等环境变量处理 */
+  proxy?: string;
+  /** 按服务覆盖超时和重试次数 */
+  services?: Partial<Record<HttpService, Partial<HttpServiceOptions>>>;
+  /** 替换底层的 fetch，例如测试时转发到本地替身服务 */
+  fetch?: typeof fetch;
+}
 
-      try {
-        const parsed = JSON.parse(jsonStr);
-        return createTextResponse(JSON.stringify(parsed, null, indent));
-      } catch (error) {
-        return createTextResponse(`JSON 解析错误: ${error instanceof Error ? error.message : String(error)}`, true);
-      }
-    }
-  },
+/**
+ * 日期名称语言
+ */
+type DateLocale = "zh" | "en";
 
-  // 文本统计
-  {
-    tool: {
-      name: "textStats",
-      description: "分析文本并返回统计信息",
-      inputSchema: {
-        type: "object",
-        properties: {
-          text: { type: "string", description: "要分析的文本" },
-        },
-        required: ["text"],
-      },
-    },
-    handler: async (args: Record<string, unknown>): Promise<CallToolResult> => {
-      const text = args.text as string;
+/**
+ * 某一时刻在指定时区下的日历字段
+ */
+interface ZonedDateParts {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+  /** 0（周日）- 6（周六） */
+  weekday: number;
+  /** 相对 UTC 的偏移（分钟，东正西负） */
+  offset: number;
+}
 
-      if (typeof text !== "string") {
-        return createTextResponse(`输入应为字符串，但收到了 ${typeof text}`, true);
-      }
+/**
+ * 时长，各字段可为负数
+ */
+interface Duration {
+  years: number;
+  months: number;
+  weeks: number;
+  days: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+}
 
-      const charCount = text.length;
-      const wordCount = text.trim() ? text.trim().split(/\s+/).length : 0;
-      const lineCount = text.split(/\r\n|\r|\n/).length;
+/**
+ * 格式字符串词法单元
+ */
+type FormatToken =
+  | { type: "token"; value: string }
+  | { type: "literal"; value: string };
 
-      // 计算字符频率
-      const charFrequency: Record<string, number> = {};
-      for (const char of text) {
-        charFrequency[char] = (charFrequency[char] || 0) + 1;
-      }
+/**
+ * 文本统计结果
+ */
+interface TextStats {
+  /** 字素簇数量（用户感知的字符数） */
+  characters: number;
+  charactersNoSpaces: number;
+  /** UTF-16 码元数量，即 JavaScript 中的 length */
+  codeUnits: number;
+  words: number;
+  sentences: number;
+  lines: number;
+  paragraphs: number;
+  /** 按书写系统统计的字符数 */
+  scripts: Record<string, number>;
+  /** 估算的 LLM token 数 */
+  estimatedTokens: number;
+  readingTime: { minutes: number; seconds: number };
+  /** 英文可读性评分，英文单词过少时为 null */
+  readability: {
+    fleschReadingEase: number;
+    fleschKincaidGrade: number;
+    syllables: number;
+  } | null;
+  topCharacters: { character: string; count: number }[];
+}
 
-      // 获取前10个最常见字符
-      const topChars = Object.entries(charFrequency)
-        .sort((a, b) => b[1] - a[1])
-        .slice(0, 10)
-        .map(([char, count]) => `"${char === ' ' ? '空格' : char === '\n' ? '换行' : char === '\t' ? '制表符' : char}": ${count}`)
-        .join(', ');
+/**
+ * 解析后的任意精度数字
+ * 值为 ±(integer + numerator / denominator)
+ */
+interface ParsedNumber {
+  negative: boolean;
+  integer: bigint;
+  numerator: bigint;
+  denominator: bigint;
+  /** 实际使用的进制 */
+  base: number;
+}
 
-      const result = {
-        字符数: charCount,
-        单词数: wordCount,
-        行数: lineCount,
-        常见字符: topChars
-      };
+/**
+ * 随机源，默认基于 crypto.getRandomValues，指定种子时为可复现的伪随机序列
+ */
+interface RandomSource {
+  /** 是否为带种子的伪随机源 */
+  seeded: boolean;
+  bytes(length: number): Uint8Array;
+  /** [0, 2^32) 的均匀整数 */
+  uint32(): number;
+  /** [0, max) 的均匀整数，max 不超过 2^53 */
+  int(max: number): number;
+  /** [0, 1) 的均匀浮点数 */
+  float(): number;
+}
 
-      return createTextResponse(JSON.stringify(result, null, 2));
-    }
-  },
+/**
+ * 密码字符类别
+ */
+type PasswordClass = "lower" | "upper" | "digit" | "symbol";
 
-  // 进制转换
-  {
-    tool: {
-      name: "convertBase",
-      description: "在不同进制之间转换数字",
-      inputSchema: {
-        type: "object",
-        properties: {
-          number: { type: "string", description: "要转换的数字（字符串形式）" },
-          fromBase: { type: "number", description: "原始进制（2-36）" },
-          toBase: { type: "number", description: "目标进制（2-36）" },
-        },
-        required: ["number", "fromBase", "toBase"],
-      },
-    },
-    handler: async (args: Record<string, unknown>): Promise<CallToolResult> => {
-      const numStr = args.number as string;
-      const fromBase = args.fromBase as number;
-      const toBase = args.toBase as number;
+/**
+ * 基本量纲
+ */
+type BaseDimension = "length" | "mass" | "time" | "temperature" | "data" | "angle";
 
-      if (fromBase < 2 || fromBase > 36 || toBase < 2 || toBase > 36) {
-        return createTextResponse("进制必须在 2-36 范围内", true);
-      }
+/**
+ * 量纲向量，如速度为 { length: 1, time: -1 }
+ */
+type Dimension = Partial<Record<BaseDimension, number>>;
 
-      try {
-        // 先转为十进制
-        const decimal = parseInt(numStr, fromBase);
+/**
+ * 单位定义：[符号, 换算到类别基本单位的系数, 中文名, 别名, 偏移量]
+ * 基本单位值 = 数值 × 系数 + 偏移量
+ */
+type UnitSpec = [symbol: string, factor: number, name: string, aliases: string[], offset?: number];
 
-        if (isNaN(decimal)) {
-          return createTextResponse(`无法将 "${numStr}" 解析为 ${fromBase} 进制数`, true);
-        }
+/**
+ * 单位类别定义
+ */
+interface UnitCategoryDefinition {
+  label: string;
+  dimension: Dimension;
+  units: UnitSpec[];
+}
 
-        // 再从十进制转为目标进制
-        const result = decimal.toString(toBase);
+/**
+ * 注册表中的单位
+ */
+interface UnitDefinition {
+  symbol: string;
+  name: string;
+  category: string;
+  factor: number;
+  offset: number;
+  aliases: string[];
+}
 
-        return createTextResponse(result);
-      } catch (error) {
+/**
+ * 解析后的（可能为复合的）单位
+ */
+interface ResolvedUnit {
+  factor: number;
+  offset: number;
+  dimension: Dimension;
+}
+
+/**
+ * 已存在同名文件时的上传策略
+ * - fail: 报错
+ * - overwrite: 携带 sha 覆盖
+ * - skip-if-identical: 内容相同则跳过，不同则覆盖
+ */
+type UploadMode = "fail" | "overwrite" | "skip-if-identical";
+
+/**
+ * 上传选项
+ */
+interface UploadOptions {
+  /** base64 编码的文件内容 */
+  content: string;
+  /** 文件名，没有扩展名时按内容类型补全 */
+  filename: string;
+  /** 提交信息 */
+  message: string;
+  /** 内容类型，未指定时根据文件内容推断 */
+  mimeType?: string;
+  /** 目录模板，覆盖 github-path-template 配置 */
+  directory?: string;
+  /** 覆盖 github-upload-mode 配置 */
+  mode?: UploadMode;
+}
+
+/**
+ * 上传结果
+ */
+interface UploadResult {
+  path: string;
+  rawUrl: string;
+  cdnUrl: string;
+  sha: string;
+  /** 内容相同而跳过上传 */
+  skipped: boolean;
+}
+
+/**
+ * 上传记录，用于以 MCP 资源形式回读已上传的文件
+ */
+interface UploadRecord {
+  path: string;
+  rawUrl: string;
+  cdnUrl: string;
+  sha: string;
+  mimeType?: string;
+  /** 文件大小（字节） */
+  size: number;
+  clientId: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * 图片生成服务类型
+ */
+type ImageProviderName = "gemini" | "openai" | "stub";
+
+/**
+ * 图片生成请求
+ */
+interface ImageGenerationRequest {
+  prompt: string;
+  /** 尺寸，例如 '1024x1024' */
+  size?: string;
+  count: number;
+}
+
+/**
+ * 生成的图片
+ */
+interface GeneratedImage {
+  /** base64 编码的图片数据 */
+  data: string;
+  mimeType: string;
+}
+
+/**
+ * 图片生成结果
+ */
+interface ImageGenerationResult {
+  images: GeneratedImage[];
+  /** 模型随图片返回的文字 */
+  text: string[];
+}
+
+/**
+ * 图片生成服务
+ */
+interface ImageProvider {
+  name: ImageProviderName;
+  description: string;
+  generate(request: ImageGenerationRequest, clientId: string, signal?: AbortSignal): Promise<ImageGenerationResult>;
+}
+
+/**
+ * 发布后端类型
+ */
+type PublishBackend = "tiny-server" | "gist" | "github" | "local";
+
+/**
+ * 发布内容
+ */
+interface PublishInput {
+  key: string;
+  content: string;
+  suffix: string;
+  title?: string;
+  /** 更新时传入已有记录的后端标识 */
+  remoteId?: string;
+}
+
+/**
+ * 发布结果
+ */
+interface PublishResult {
+  url: string;
+  /** 后端内部标识（如 Gist ID、仓库路径、本地文件名） */
+  remoteId?: string;
+}
+
+/**
+ * 发布后端
+ * 将发布逻辑与具体存储服务解耦
+ */
+interface Publisher {
+  name: PublishBackend;
+  description: string;
+  /** 新建或覆盖内容 */
+  publish(input: PublishInput, clientId: string, signal?: AbortSignal): Promise<PublishResult>;
+  /** 检查 key 在后端是否已被占用 */
+  exists(key: string, suffix: string, clientId: string, signal?: AbortSignal): Promise<boolean>;
+  /** 删除内容 */
+  remove(record: PublicationRecord, signal?: AbortSignal): Promise<void>;
+  /** 读取已发布的内容 */
+  read(record: PublicationRecord): Promise<string>;
+}
+
+/**
+ * 发布记录
+ */
+interface PublicationRecord {
+  key: string;
+  title?: string;
+  suffix: string;
+  url: string;
+  /** 发布后端，旧记录缺省为 tiny-server */
+  backend?: PublishBackend;
+  remoteId?: string;
+  /** 发布者客户端标识，仅发布者可更新或删除 */
+  clientId: string;
+  createdAt: number;
+  updatedAt: number;
+  /** 过期时间戳（毫秒），到期后由服务器删除 */
+  expiresAt?: number;
+}
+
+/**
+ * 资源变更事件，由发布和上传操作产生，推送给同一客户端的会话
+ */
+interface ResourceEvent {
+  clientId: string;
+  uri: string;
+  /** 资源是否新增或删除（影响资源列表） */
+  listChanged: boolean;
+}
+
+/**
+ * 审计记录，每次工具调用一条
+ */
+interface AuditRecord {
+  /** 与日志中的 requestId 一致 */
+  id: string;
+  time: string;
+  tool: string;
+  clientId: string;
+  keyId?: string;
+  sessionId?: string;
+  /** 脱敏、截断后的参数 */
+  arguments: unknown;
+  outcome: "success" | ToolErrorType;
+  durationMs: number;
+  /** 结果摘要 */
+  result?: string;
+  /** 异常信息 */
+  error?: string;
+}
+
+/**
+ * 审计记录查询条件
+ */
+interface AuditQuery {
+  tool?: string;
+  clientId?: string;
+  /** 起始时间（毫秒时间戳，含） */
+  from?: number;
+  /** 结束时间（毫秒时间戳，含） */
+  to?: number;
+  outcome?: AuditRecord["outcome"];
+  limit: number;
+}
+
+/**
+ * KV 中存储的配置值
+ */
+interface StoredConfigValue {
+  /** 明文值（非密钥类配置） */
+  value?: string;
+  /** AES-GCM 初始向量（base64） */
+  iv?: string;
+  /** AES-GCM 密文（base64） */
+  ciphertext?: string;
+  updatedAt: number;
+}
+
+/**
+ * JSON Schema 子集
+ * 覆盖工具 inputSchema 中用到的关键字
+ */
+interface JsonSchema {
+  type?: string | string[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: unknown[];
+  const?: unknown;
+  default?: unknown;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+}
+
+/**
+ * 参数校验问题
+ */
+interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+// ==================== 日志 ====================
+
+const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+/**
+ * 最低输出级别，取自 LOG_LEVEL 环境变量
+ */
+const LOG_THRESHOLD = LOG_LEVELS.indexOf(
+  LOG_LEVELS.includes(Deno.env.get("LOG_LEVEL") as LogLevel) ? Deno.env.get("LOG_LEVEL") as LogLevel : "info"
+);
+
+/**
+ * 将日志字段转换为可序列化的值，Error 展开为 name、message 和 stack
+ */
+function serializeLogValue(value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+}
+
+/**
+ * 创建结构化日志记录器
+ * 日志写到标准错误，标准输出留给 stdio 传输
+ * @param bindings 每条日志都附带的字段
+ */
+function createLogger(bindings: Record<string, unknown> = {}): Logger {
+  const write = (level: LogLevel, message: string, fields: Record<string, unknown> = {}) => {
+    if (LOG_LEVELS.indexOf(level) < LOG_THRESHOLD) return;
+    const entry: Record<string, unknown> = { time: new Date().toISOString(), level, msg: message };
+    for (const [key, value] of Object.entries({ ...bindings, ...fields })) {
+      if (value !== undefined) entry[key] = serializeLogValue(value);
+    }
+    console.error(redactSecrets(JSON.stringify(entry)));
+  };
+
+  return {
+    debug: (message, fields) => write("debug", message, fields),
+    info: (message, fields) => write("info", message, fields),
+    warn: (message, fields) => write("warn", message, fields),
+    error: (message, fields) => write("error", message, fields),
+    child: (fields) => createLogger({ ...bindings, ...fields }),
+  };
+}
+
+const logger = createLogger();
+
+/** MCP 日志级别，按严重程度升序 */
+const MCP_LOG_LEVELS: LoggingLevel[] = ["debug", "info", "notice", "warning", "error", "critical", "alert", "emergency"];
+
+const MCP_LOG_LEVEL_OF: Record<LogLevel, LoggingLevel> = {
+  debug: "debug",
+  info: "info",
+  warn: "warning",
+  error: "error",
+};
+
+/**
+ * 包装日志记录器，将达到客户端所选级别的日志以 notifications/message 同时发给客户端
+ * 发给客户端的错误不含调用栈
+ * @param minLevel 客户端选择的最低级别
+ * @param name 日志来源，通常为工具名
+ */
+function forwardLogsToClient(
+  base: Logger,
+  minLevel: LoggingLevel,
+  send: (notification: ServerNotification) => Promise<void>,
+  name: string
+): Logger {
+  const forward = (level: LogLevel, message: string, fields?: Record<string, unknown>) => {
+    const mcpLevel = MCP_LOG_LEVEL_OF[level];
+    if (MCP_LOG_LEVELS.indexOf(mcpLevel) < MCP_LOG_LEVELS.indexOf(minLevel)) return;
+    const data: Record<string, unknown> = { message };
+    for (const [key, value] of Object.entries(fields ?? {})) {
+      if (value !== undefined) data[key] = value instanceof Error ? { name: value.name, message: value.message } : value;
+    }
+    send({
+      method: "notifications/message",
+      params: { level: mcpLevel, logger: name, data: JSON.parse(redactSecrets(JSON.stringify(data))) },
+    }).catch(error => base.debug("向客户端发送日志失败", { error }));
+  };
+
+  return {
+    debug: (message, fields) => {
+      base.debug(message, fields);
+      forward("debug", message, fields);
+    },
+    info: (message, fields) => {
+      base.info(message, fields);
+      forward("info", message, fields);
+    },
+    warn: (message, fields) => {
+      base.warn(message, fields);
+      forward("warn", message, fields);
+    },
+    error: (message, fields) => {
+      base.error(message, fields);
+      forward("error", message, fields);
+    },
+    child: (fields) => forwardLogsToClient(base.child(fields), minLevel, send, name),
+  };
+}
+
+/**
+ * 将文本中的密钥打码，用于日志和返回给客户端的错误信息
+ * @param secrets 已知的密钥值（例如请求头中的令牌），按原文替换
+ */
+function redactSecrets(text: string, secrets: string[] = []): string {
+  let result = text;
+  for (const secret of secrets) {
+    // 过短的值容易误伤普通文本
+    if (secret.length >= 8) result = result.replaceAll(secret, "[REDACTED]");
+  }
+  return result
+    .replace(/\b(?:gh[pousr]_|github_pat_|sk-|AIza|tsk_)[A-Za-z0-9_-]{16,}/g, "[REDACTED]")
+    .replace(/(Bearer\s+)[^\s"',}]+/gi, "$1[REDACTED]")
+    .replace(/([?&](?:key|api_key|access_token|token)=)[^&\s"']+/gi, "$1[REDACTED]");
+}
+
+// ==================== 辅助函数 ====================
+function generateShortKey() {
+  return randomString(createRandomSource(), 'abcdefghijklmnopqrstuvwxyz0123456789', 6);
+}
+
+/**
+ * 创建文本响应
+ * @param text 响应文本
+ * @param isError 是否为错误响应
+ */
+function createTextResponse(text: string, isError = false): CallToolResult {
+  return {
+    content: [{ type: "text", text }],
+    isError,
+  };
+}
+
+// ==================== 配置管理 ====================
+
+/**
+ * 支持的配置项
+ */
+const CONFIG_KEYS = {
+  "github-token": { description: "GitHub 访问令牌", env: "GITHUB_TOKEN", secret: true },
+  "github-repo": {
+    description: "GitHub 仓库（owner/repo），客户端设置的值需同时设置自己的 github-token 才生效",
+    env: "GITHUB_REPO",
+    secret: false,
+    // 使用服务器令牌时只能写入服务器指定的仓库
+    boundTo: "github-token",
+  },
+  "gemini-api-key": { description: "Gemini API 密钥", env: "GEMINI_API_KEY", secret: true },
+  "openai-api-key": { description: "OpenAI 兼容图片接口的 API 密钥", env: "OPENAI_API_KEY", secret: true },
+  "image-provider": {
+    description: "默认图片生成服务: gemini | openai | stub",
+    env: "IMAGE_PROVIDER",
+    secret: false,
+    default: "gemini",
+  },
+  "gemini-image-model": {
+    description: "Gemini 图片生成模型",
+    env: "GEMINI_IMAGE_MODEL",
+    secret: false,
+    default: "gemini-2.0-flash-exp-image-generation",
+  },
+  "gemini-base-url": {
+    description: "Gemini API 地址",
+    env: "GEMINI_BASE_URL",
+    secret: false,
+    serverOnly: true,
+    default: "https://generativelanguage.googleapis.com/v1beta",
+  },
+  "openai-base-url": {
+    description: "OpenAI 兼容接口地址",
+    env: "OPENAI_BASE_URL",
+    secret: false,
+    serverOnly: true,
+    default: "https://api.openai.com/v1",
+  },
+  "openai-image-model": {
+    description: "OpenAI 兼容接口的图片模型",
+    env: "OPENAI_IMAGE_MODEL",
+    secret: false,
+    default: "gpt-image-1",
+  },
+  "github-branch": {
+    description: "GitHub 上传使用的分支，客户端设置的值需同时设置自己的 github-token 才生效",
+    env: "GITHUB_BRANCH",
+    secret: false,
+    boundTo: "github-token",
+    default: "master",
+  },
+  "github-api-url": {
+    description: "GitHub API 地址（GitHub Enterprise 为 https://<host>/api/v3）",
+    env: "GITHUB_API_URL",
+    secret: false,
+    // 请求会携带 github-token，可能是服务器的令牌
+    serverOnly: true,
+    default: "https://api.github.com",
+  },
+  "github-path-template": {
+    description: "GitHub 上传目录模板，支持 {YYYY} {MM} {DD} {type}，例如 'images/{YYYY}/{MM}/'",
+    env: "GITHUB_PATH_TEMPLATE",
+    secret: false,
+    default: "",
+  },
+  "github-upload-mode": {
+    description: "同名文件已存在时的策略: fail | overwrite | skip-if-identical",
+    env: "GITHUB_UPLOAD_MODE",
+    secret: false,
+    default: "fail",
+  },
+  "github-cdn-template": {
+    description: "CDN 地址模板，支持 {repo} {branch} {path}",
+    env: "GITHUB_CDN_TEMPLATE",
+    secret: false,
+    default: "https://cdn.jsdelivr.net/gh/{repo}@{branch}/{path}",
+  },
+  "tiny-server-url": {
+    description: "Tiny Server 地址",
+    env: "TINY_SERVER_URL",
+    secret: false,
+    // 服务器会向该地址发起写请求，不允许客户端指向任意主机
+    serverOnly: true,
+    default: "https://note.linkof.link",
+  },
+  "publish-backend": {
+    description: "默认发布后端: tiny-server | gist | github | local",
+    env: "PUBLISH_BACKEND",
+    secret: false,
+    default: "tiny-server",
+  },
+  "publish-dir": {
+    description: "local 发布后端的存储目录",
+    env: "PUBLISH_DIR",
+    secret: false,
+    serverOnly: true,
+    default: "./published",
+  },
+  "public-base-url": {
+    description: "本服务器对外访问地址，用于生成 local 发布后端的 URL",
+    env: "PUBLIC_BASE_URL",
+    secret: false,
+    serverOnly: true,
+  },
+} satisfies Record<string, ConfigKeyDefinition>;
+
+type ConfigKey = keyof typeof CONFIG_KEYS;
+
+/**
+ * 配置值来源
+ */
+type ConfigSource = "client" | "env" | "file" | "default";
+
+/**
+ * 启动时加载的配置文件内容
+ */
+let serverConfig: ServerConfig = {};
+
+let kvPromise: Promise<Deno.Kv> | undefined;
+
+/**
+ * 获取共享的 KV 实例
+ */
+function getKv(): Promise<Deno.Kv> {
+  kvPromise ??= Deno.openKv();
+  return kvPromise;
+}
+
+/**
+ * 加载配置文件
+ * @param path 配置文件路径（JSON）
+ */
+async function loadServerConfig(path: string): Promise<ServerConfig> {
+  const text = await Deno.readTextFile(path);
+  const parsed = JSON.parse(text);
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`配置文件格式错误: ${path}`);
+  }
+  return parsed as ServerConfig;
+}
+
+/**
+ * 判断是否为支持的配置项
+ */
+function isConfigKey(key: string): key is ConfigKey {
+  return Object.hasOwn(CONFIG_KEYS, key);
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+let masterKeyPromise: Promise<CryptoKey | undefined> | undefined;
+
+/**
+ * 由环境变量 CONFIG_MASTER_KEY 派生 AES-GCM 主密钥
+ * 未设置时返回 undefined，此时不允许保存密钥类配置
+ */
+function getMasterKey(): Promise<CryptoKey | undefined> {
+  masterKeyPromise ??= (async () => {
+    const secret = Deno.env.get("CONFIG_MASTER_KEY");
+    if (!secret) return undefined;
+    const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(secret));
+    return crypto.subtle.importKey("raw", digest, "AES-GCM", false, ["encrypt", "decrypt"]);
+  })();
+  return masterKeyPromise;
+}
+
+async function encryptValue(value: string): Promise<StoredConfigValue> {
+  const key = await getMasterKey();
+  if (!key) {
+    throw new Error("服务器未设置 CONFIG_MASTER_KEY，无法保存密钥类配置");
+  }
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, new TextEncoder().encode(value));
+  return { iv: bytesToBase64(iv), ciphertext: bytesToBase64(new Uint8Array(ciphertext)), updatedAt: Date.now() };
+}
+
+async function decryptValue(stored: StoredConfigValue): Promise<string> {
+  if (stored.value !== undefined) return stored.value;
+  const key = await getMasterKey();
+  if (!key || !stored.iv || !stored.ciphertext) {
+    throw new Error("无法解密配置值，请检查 CONFIG_MASTER_KEY");
+  }
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: base64ToBytes(stored.iv) },
+    key,
+    base64ToBytes(stored.ciphertext)
+  );
+  return new TextDecoder().decode(plaintext);
+}
+
+/**
+ * 解析配置值及其来源
+ * 优先级: 客户端设置 > 环境变量 > 配置文件 > 默认值
+ * @param clientId 客户端标识，为 undefined 时只读取服务器级配置
+ */
+async function resolveConfig(
+  clientId: string | undefined,
+  key: ConfigKey
+): Promise<{ value: string; source: ConfigSource } | undefined> {
+  const definition: ConfigKeyDefinition = CONFIG_KEYS[key];
+
+  if (clientId !== undefined && !definition.serverOnly) {
+    const kv = await getKv();
+    const entry = await kv.get<StoredConfigValue>(["config", clientId, key]);
+    const bound = !definition.boundTo ||
+      (await resolveConfig(clientId, definition.boundTo as ConfigKey))?.source === "client";
+    if (entry.value && bound) {
+      return { value: await decryptValue(entry.value), source: "client" };
+    }
+  }
+
+  const envValue = Deno.env.get(definition.env);
+  if (envValue) return { value: envValue, source: "env" };
+
+  const fileValue = serverConfig.config?.[key];
+  if (fileValue) return { value: fileValue, source: "file" };
+
+  if (definition.default !== undefined) return { value: definition.default, source: "default" };
+
+  return undefined;
+}
+
+/**
+ * 获取配置值
+ * @param clientId 客户端标识
+ * @param key 配置项
+ */
+async function getConfig(clientId: string, key: ConfigKey): Promise<string | undefined> {
+  return (await resolveConfig(clientId, key))?.value;
+}
+
+/**
+ * 获取服务器级配置值（忽略客户端设置）
+ * @param key 配置项
+ */
+async function getServerConfig(key: ConfigKey): Promise<string | undefined> {
+  return (await resolveConfig(undefined, key))?.value;
+}
+
+/**
+ * 保存客户端配置，密钥类配置加密存储
+ */
+async function setConfig(clientId: string, key: ConfigKey, value: string): Promise<void> {
+  const definition: ConfigKeyDefinition = CONFIG_KEYS[key];
+  if (definition.serverOnly) {
+    throw new Error(`${key} 只能通过环境变量 ${definition.env} 或配置文件设置`);
+  }
+  const stored: StoredConfigValue = CONFIG_KEYS[key].secret
+    ? await encryptValue(value)
+    : { value, updatedAt: Date.now() };
+  const kv = await getKv();
+  await kv.set(["config", clientId, key], stored);
+}
+
+/**
+ * 删除客户端配置
+ * @returns 是否存在并已删除
+ */
+async function deleteConfig(clientId: string, key: ConfigKey): Promise<boolean> {
+  const kv = await getKv();
+  const entry = await kv.get(["config", clientId, key]);
+  if (entry.versionstamp === null) return false;
+  await kv.delete(["config", clientId, key]);
+  return true;
+}
+
+/**
+ * 对密钥类配置值打码
+ */
+function maskSecret(value: string): string {
+  if (value.length <= 8) return "*".repeat(value.length);
+  return `${value.slice(0, 4)}${"*".repeat(Math.min(value.length - 8, 16))}${value.slice(-4)}`;
+}
+
+// ==================== 身份认证 ====================
+
+const API_KEY_PREFIX = "tsk_";
+
+/**
+ * lastUsedAt 的最小更新间隔，避免每个请求都写 KV
+ */
+const API_KEY_TOUCH_INTERVAL_MS = 60_000;
+
+async function hashApiKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(key));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * 签发 API 密钥，明文只在此时返回一次
+ * @param clientId 密钥对应的客户端标识，默认为密钥 ID
+ */
+async function issueApiKey(
+  label: string,
+  options: { clientId?: string; admin?: boolean } = {}
+): Promise<{ key: string; record: ApiKeyRecord }> {
+  const source = createRandomSource();
+  const id = randomString(source, "abcdefghijklmnopqrstuvwxyz0123456789", 10);
+  const key = `${API_KEY_PREFIX}${bytesToBase64(source.bytes(32)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")}`;
+  const record: ApiKeyRecord = {
+    id,
+    hash: await hashApiKey(key),
+    label,
+    clientId: options.clientId ?? id,
+    admin: options.admin ?? false,
+    createdAt: Date.now(),
+  };
+
+  const kv = await getKv();
+  const result = await kv.atomic()
+    .check({ key: ["api-keys", id], versionstamp: null })
+    .set(["api-keys", id], record)
+    .set(["api-key-hashes", record.hash], id)
+    .commit();
+  if (!result.ok) {
+    throw new Error("API 密钥 ID 冲突，请重试");
+  }
+  return { key, record };
+}
+
+/**
+ * 列出全部 API 密钥记录，按创建时间排序
+ */
+async function listApiKeys(): Promise<ApiKeyRecord[]> {
+  const kv = await getKv();
+  const records: ApiKeyRecord[] = [];
+  for await (const entry of kv.list<ApiKeyRecord>({ prefix: ["api-keys"] })) {
+    records.push(entry.value);
+  }
+  return records.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * 吊销 API 密钥，记录保留用于审计
+ */
+async function revokeApiKey(id: string): Promise<ApiKeyRecord> {
+  const kv = await getKv();
+  const record = (await kv.get<ApiKeyRecord>(["api-keys", id])).value;
+  if (!record) {
+    throw new Error(`API 密钥不存在: ${id}`);
+  }
+  if (record.revokedAt) return record;
+
+  const revoked = { ...record, revokedAt: Date.now() };
+  await kv.atomic()
+    .set(["api-keys", id], revoked)
+    .delete(["api-key-hashes", record.hash])
+    .commit();
+  return revoked;
+}
+
+async function hasActiveApiKeys(): Promise<boolean> {
+  return (await listApiKeys()).some(record => !record.revokedAt);
+}
+
+/**
+ * 校验 API 密钥，有效时返回对应身份
+ */
+async function authenticateApiKey(key: string): Promise<ClientIdentity | null> {
+  if (!key.startsWith(API_KEY_PREFIX)) return null;
+
+  const kv = await getKv();
+  const id = (await kv.get<string>(["api-key-hashes", await hashApiKey(key)])).value;
+  if (!id) return null;
+  const record = (await kv.get<ApiKeyRecord>(["api-keys", id])).value;
+  if (!record || record.revokedAt) return null;
+
+  const now = Date.now();
+  if (!record.lastUsedAt || now - record.lastUsedAt > API_KEY_TOUCH_INTERVAL_MS) {
+    await kv.set(["api-keys", id], { ...record, lastUsedAt: now });
+  }
+  return { clientId: record.clientId, keyId: record.id, label: record.label, admin: record.admin };
+}
+
+/**
+ * 生成 API 密钥的展示信息（不含散列）
+ */
+function describeApiKey(record: ApiKeyRecord) {
+  return {
+    id: record.id,
+    label: record.label,
+    clientId: record.clientId,
+    admin: record.admin,
+    createdAt: new Date(record.createdAt).toISOString(),
+    lastUsedAt: record.lastUsedAt ? new Date(record.lastUsedAt).toISOString() : null,
+    revokedAt: record.revokedAt ? new Date(record.revokedAt).toISOString() : null,
+  };
+}
+
+/**
+ * 要求调用方为管理员
+ */
+function requireAdmin(context: ToolContext): void {
+  if (!context.identity.admin) {
+    throw new Error("需要管理员权限");
+  }
+}
+
+// ==================== HTTP 客户端 ====================
+
+const HTTP_SERVICE_DEFAULTS: Record<HttpService, HttpServiceOptions> = {
+  github: { timeoutMs: 30_000, retries: 3 },
+  "tiny-server": { timeoutMs: 15_000, retries: 2 },
+  // 图片生成耗时较长
+  gemini: { timeoutMs: 120_000, retries: 2 },
+  openai: { timeoutMs: 120_000, retries: 2 },
+  download: { timeoutMs: 60_000, retries: 2 },
+};
+
+const RETRYABLE_STATUS = new Set([429, 500, 502, 503, 504]);
+/** 明确表示请求未被处理的状态，非幂等请求只在这些状态下重试 */
+const UNPROCESSED_STATUS = new Set([429, 503]);
+/** 网络错误、超时和网关错误时只重试幂等请求，请求可能已被处理 */
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+const RETRY_BASE_DELAY_MS = 500;
+/** Retry-After 超过此值时不再等待，直接返回响应 */
+const RETRY_MAX_DELAY_MS = 30_000;
+
+/**
+ * 取出请求头中的密钥，用于错误信息打码
+ */
+function headerSecrets(headers?: HeadersInit): string[] {
+  const parsed = new Headers(headers);
+  return ["authorization", "x-api-key", "x-goog-api-key"]
+    .map(name => parsed.get(name)?.replace(/^Bearer\s+/i, ""))
+    .filter((value): value is string => Boolean(value));
+}
+
+/**
+ * 计算重试等待时间：优先使用 Retry-After，否则指数退避并加入随机抖动
+ */
+function retryDelay(attempt: number, response?: Response): number {
+  const retryAfter = response?.headers.get("retry-after");
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const ms = Number.isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000;
+    if (!Number.isNaN(ms)) return Math.max(0, ms);
+  }
+  const base = RETRY_BASE_DELAY_MS * 2 ** attempt;
+  return Math.min(RETRY_MAX_DELAY_MS, base / 2 + Math.random() * base / 2);
+}
+
+/**
+ * 等待指定时间，signal 触发时提前结束并抛出错误
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error("请求已取消"));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error("请求已取消"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * 出站 HTTP 客户端
+ * 按服务设置超时，429/5xx 时重试，调用方的 signal 触发时中止请求
+ */
+export class HttpClient {
+  private fetchImpl: typeof fetch;
+  private services: Record<HttpService, HttpServiceOptions>;
+  private client?: Deno.HttpClient;
+
+  constructor(options: HttpClientOptions = {}) {
+    this.fetchImpl = options.fetch ?? fetch;
+    this.services = { ...HTTP_SERVICE_DEFAULTS };
+    for (const [service, overrides] of Object.entries(options.services ?? {})) {
+      if (!Object.hasOwn(HTTP_SERVICE_DEFAULTS, service)) {
+        throw new Error(`未知的 HTTP 服务: ${service}`);
+      }
+      this.services[service as HttpService] = { ...HTTP_SERVICE_DEFAULTS[service as HttpService], ...overrides };
+    }
+    if (options.proxy) {
+      this.client = Deno.createHttpClient({ proxy: { url: options.proxy } });
+    }
+  }
+
+  /**
+   * 发送请求
+   * 重试后仍失败的 HTTP 状态以响应形式返回，由调用方处理；网络错误、超时和取消抛出错误
+   * @param service 目标服务，决定超时和重试次数
+   */
+  async request(service: HttpService, url: string, init: RequestInit = {}): Promise<Response> {
+    const { timeoutMs, retries } = this.services[service];
+    const method = (init.method ?? "GET").toUpperCase();
+    const secrets = headerSecrets(init.headers);
+    const target = `${method} ${redactSecrets(url, secrets)}`;
+    const callerSignal = init.signal ?? undefined;
+
+    for (let attempt = 0; ; attempt++) {
+      const timeout = AbortSignal.timeout(timeoutMs);
+      const signal = callerSignal ? AbortSignal.any([callerSignal, timeout]) : timeout;
+
+      let response: Response;
+      try {
+        response = await this.fetchImpl(url, { ...init, signal, client: this.client });
+      } catch (error) {
+        if (callerSignal?.aborted) {
+          throw new Error(`请求已取消: ${target}`);
+        }
+        const reason = timeout.aborted
+          ? `超时（${timeoutMs}ms）`
+          : redactSecrets(error instanceof Error ? error.message : String(error), secrets);
+        if (attempt >= retries || !IDEMPOTENT_METHODS.has(method)) {
+          throw new Error(`${service} 请求失败: ${target}: ${reason}`);
+        }
+        const wait = retryDelay(attempt);
+        logger.warn("HTTP 请求失败，将重试", {
+          service,
+          request: target,
+          reason,
+          attempt: attempt + 1,
+          delayMs: Math.round(wait),
+        });
+        await delay(wait, callerSignal);
+        continue;
+      }
+
+      const retryable = IDEMPOTENT_METHODS.has(method) ? RETRYABLE_STATUS : UNPROCESSED_STATUS;
+      if (!retryable.has(response.status) || attempt >= retries) return response;
+      const wait = retryDelay(attempt, response);
+      if (wait > RETRY_MAX_DELAY_MS) return response;
+
+      await response.body?.cancel();
+      logger.warn("HTTP 请求失败，将重试", {
+        service,
+        request: target,
+        status: response.status,
+        attempt: attempt + 1,
+        delayMs: Math.round(wait),
+      });
+      await delay(wait, callerSignal);
+    }
+  }
+}
+
+/**
+ * 共享的出站 HTTP 客户端，启动时按配置文件重新创建
+ */
+let httpClient = new HttpClient();
+
+/**
+ * 按选项重新创建共享的出站 HTTP 客户端，之后的所有出站请求都经由它发送
+ */
+export function configureHttpClient(options: HttpClientOptions = {}): HttpClient {
+  httpClient = new HttpClient(options);
+  return httpClient;
+}
+
+// ==================== GitHub 上传 ====================
+
+const UPLOAD_MODES: UploadMode[] = ["fail", "overwrite", "skip-if-identical"];
+
+/**
+ * 内容类型与扩展名对照
+ */
+const MIME_EXTENSIONS: Record<string, string> = {
+  "image/png": ".png",
+  "image/jpeg": ".jpg",
+  "image/gif": ".gif",
+  "image/webp": ".webp",
+  "image/svg+xml": ".svg",
+  "application/pdf": ".pdf",
+  "application/zip": ".zip",
+  "application/json": ".json",
+  "text/markdown": ".md",
+  "text/html": ".html",
+  "text/plain": ".txt",
+};
+
+/**
+ * 根据文件头推断内容类型
+ */
+function sniffMimeType(bytes: Uint8Array): string | undefined {
+  const startsWith = (...signature: number[]) => signature.every((b, i) => bytes[i] === b);
+  if (startsWith(0x89, 0x50, 0x4e, 0x47)) return "image/png";
+  if (startsWith(0xff, 0xd8, 0xff)) return "image/jpeg";
+  if (startsWith(0x47, 0x49, 0x46, 0x38)) return "image/gif";
+  if (startsWith(0x52, 0x49, 0x46, 0x46) && String.fromCharCode(...bytes.slice(8, 12)) === "WEBP") return "image/webp";
+  if (startsWith(0x25, 0x50, 0x44, 0x46)) return "application/pdf";
+  if (startsWith(0x50, 0x4b, 0x03, 0x04)) return "application/zip";
+  return undefined;
+}
+
+/**
+ * 展开目录模板
+ * @param template 例如 'images/{YYYY}/{MM}/'
+ * @param mimeType 用于 {type}，取内容类型的主类型
+ */
+function expandPathTemplate(template: string, mimeType?: string): string {
+  const now = new Date();
+  const values: Record<string, string> = {
+    YYYY: now.getUTCFullYear().toString(),
+    MM: (now.getUTCMonth() + 1).toString().padStart(2, "0"),
+    DD: now.getUTCDate().toString().padStart(2, "0"),
+    type: mimeType?.split("/")[0] ?? "file",
+  };
+  const expanded = template.replace(/\{(\w+)\}/g, (match, name) => values[name] ?? match);
+  const trimmed = expanded.replace(/^\/+/, "");
+  return trimmed && !trimmed.endsWith("/") ? `${trimmed}/` : trimmed;
+}
+
+/**
+ * 计算 git blob sha，用于判断内容是否相同
+ */
+async function gitBlobSha(bytes: Uint8Array): Promise<string> {
+  const header = new TextEncoder().encode(`blob ${bytes.length}\0`);
+  const data = new Uint8Array(header.length + bytes.length);
+  data.set(header);
+  data.set(bytes, header.length);
+  const digest = await crypto.subtle.digest("SHA-1", data);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * 获取 GitHub 令牌
+ */
+async function requireGithubToken(clientId: string): Promise<string> {
+  const token = await getConfig(clientId, "github-token");
+  if (!token) {
+    throw new Error("未设置 github token");
+  }
+  return token;
+}
+
+/**
+ * 获取 GitHub 仓库
+ */
+async function requireGithubRepo(clientId: string): Promise<string> {
+  const repo = await getConfig(clientId, "github-repo");
+  if (!repo) {
+    throw new Error("未设置 github repo");
+  }
+  return repo;
+}
+
+/**
+ * 调用 GitHub API，地址取自服务器级的 github-api-url 配置
+ */
+async function githubRequest(clientId: string, path: string, init: RequestInit = {}): Promise<Response> {
+  const token = await requireGithubToken(clientId);
+  const apiUrl = await getServerConfig("github-api-url") as string;
+  return await httpClient.request("github", `${apiUrl.replace(/\/+$/, "")}${path}`, {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      "Accept": "application/vnd.github+json",
+      "Authorization": `Bearer ${token}`,
+      ...init.headers,
+    },
+  });
+}
+
+/**
+ * 逐段编码仓库内路径
+ */
+function encodeRepoPath(path: string): string {
+  return path.split("/").map(encodeURIComponent).join("/");
+}
+
+/**
+ * 生成仓库文件的 contents API 路径
+ */
+async function githubContentsPath(clientId: string, path: string): Promise<string> {
+  const repo = await requireGithubRepo(clientId);
+  return `/repos/${repo}/contents/${encodeRepoPath(path)}`;
+}
+
+/**
+ * 获取仓库中文件的 sha 和下载地址，不存在时返回 undefined
+ */
+async function getGithubFile(
+  clientId: string,
+  path: string,
+  signal?: AbortSignal
+): Promise<{ sha: string; downloadUrl: string } | undefined> {
+  const branch = await getConfig(clientId, "github-branch") as string;
+  const res = await githubRequest(clientId, `${await githubContentsPath(clientId, path)}?ref=${encodeURIComponent(branch)}`, {
+    signal,
+  });
+  if (res.status === 404) {
+    await res.body?.cancel();
+    return undefined;
+  }
+  if (!res.ok) {
+    throw new Error(`Failed to get file: ${res.status} ${res.statusText}`);
+  }
+  const data = await res.json();
+  return { sha: data.sha, downloadUrl: data.download_url };
+}
+
+/**
+ * 删除仓库中的文件
+ */
+async function deleteGithubFile(
+  clientId: string,
+  path: string,
+  commitMessage: string,
+  signal?: AbortSignal
+): Promise<void> {
+  const sha = (await getGithubFile(clientId, path, signal))?.sha;
+  if (!sha) return;
+  const branch = await getConfig(clientId, "github-branch") as string;
+  const res = await githubRequest(clientId, await githubContentsPath(clientId, path), {
+    method: "DELETE",
+    body: JSON.stringify({ message: commitMessage, sha, branch }),
+    signal,
+  });
+  if (!res.ok) {
+    throw new Error(`Failed to delete file: ${res.status} ${res.statusText}`);
+  }
+  await res.body?.cancel();
+  await deleteUploadRecord(clientId, path);
+}
+
+/**
+ * 读取仓库中文件的原始内容
+ */
+async function readGithubFile(clientId: string, path: string): Promise<Uint8Array> {
+  const branch = await getConfig(clientId, "github-branch") as string;
+  const res = await githubRequest(clientId, `${await githubContentsPath(clientId, path)}?ref=${encodeURIComponent(branch)}`, {
+    headers: { "Accept": "application/vnd.github.raw+json" },
+  });
+  if (!res.ok) {
+    await res.body?.cancel();
+    throw new Error(`Failed to read file: ${res.status} ${res.statusText}`);
+  }
+  return new Uint8Array(await res.arrayBuffer());
+}
+
+async function getUploadRecord(clientId: string, path: string): Promise<UploadRecord | null> {
+  const kv = await getKv();
+  return (await kv.get<UploadRecord>(["uploads", clientId, path])).value;
+}
+
+/**
+ * 保存上传记录，新文件会触发资源列表变更通知
+ */
+async function saveUploadRecord(record: UploadRecord): Promise<void> {
+  const kv = await getKv();
+  const existing = await kv.get<UploadRecord>(["uploads", record.clientId, record.path]);
+  await kv.set(["uploads", record.clientId, record.path], {
+    ...record,
+    createdAt: existing.value?.createdAt ?? record.createdAt,
+  });
+  emitResourceEvent({ clientId: record.clientId, uri: uploadUri(record.path), listChanged: existing.value === null });
+}
+
+async function deleteUploadRecord(clientId: string, path: string): Promise<void> {
+  const kv = await getKv();
+  const existing = await kv.get<UploadRecord>(["uploads", clientId, path]);
+  if (existing.value === null) return;
+  await kv.delete(["uploads", clientId, path]);
+  emitResourceEvent({ clientId, uri: uploadUri(path), listChanged: true });
+}
+
+/**
+ * 列出客户端的全部上传记录，按更新时间倒序
+ */
+async function listUploads(clientId: string): Promise<UploadRecord[]> {
+  const kv = await getKv();
+  const records: UploadRecord[] = [];
+  for await (const entry of kv.list<UploadRecord>({ prefix: ["uploads", clientId] })) {
+    records.push(entry.value);
+  }
+  return records.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * 生成文件的 CDN 地址
+ */
+async function githubCdnUrl(clientId: string, path: string): Promise<string> {
+  const template = await getConfig(clientId, "github-cdn-template") as string;
+  const values: Record<string, string> = {
+    repo: await requireGithubRepo(clientId),
+    branch: await getConfig(clientId, "github-branch") as string,
+    path: encodeRepoPath(path),
+  };
+  return template.replace(/\{(\w+)\}/g, (match, name) => values[name] ?? match);
+}
+
+/**
+ * 上传文件到 GitHub 仓库
+ * @param options 上传选项
+ * @param clientId 客户端标识，决定使用的令牌和仓库
+ * @param signal 用于中止上传
+ */
+async function uploadFile(options: UploadOptions, clientId: string, signal?: AbortSignal): Promise<UploadResult> {
+  const bytes = base64ToBytes(options.content);
+  const mimeType = options.mimeType ?? sniffMimeType(bytes);
+
+  let filename = options.filename.replace(/^\/+/, "");
+  const extension = mimeType ? MIME_EXTENSIONS[mimeType] : undefined;
+  if (extension && !/\.[A-Za-z0-9]+$/.test(filename)) {
+    filename += extension;
+  }
+
+  const template = options.directory ?? await getConfig(clientId, "github-path-template") as string;
+  const path = `${expandPathTemplate(template, mimeType)}${filename}`;
+  const mode = options.mode ?? await getConfig(clientId, "github-upload-mode") as UploadMode;
+  if (!UPLOAD_MODES.includes(mode)) {
+    throw new Error(`未知上传策略: ${mode}`);
+  }
+
+  logger.info("上传文件", { clientId, path, mode });
+  const existing = await getGithubFile(clientId, path, signal);
+  const existingSha = existing?.sha;
+  if (existing) {
+    if (mode === "fail") {
+      throw new Error(`文件已存在: ${path}`);
+    }
+    if (mode === "skip-if-identical" && existing.sha === await gitBlobSha(bytes)) {
+      return {
+        path,
+        rawUrl: existing.downloadUrl,
+        cdnUrl: await githubCdnUrl(clientId, path),
+        sha: existing.sha,
+        skipped: true,
+      };
+    }
+  }
+
+  const res = await githubRequest(clientId, await githubContentsPath(clientId, path), {
+    method: "PUT",
+    body: JSON.stringify({
+      message: `Upload file via MCP tool (${options.message})`,
+      content: options.content,
+      branch: await getConfig(clientId, "github-branch"),
+      sha: existingSha,
+    }),
+    signal,
+  });
+  if (!res.ok) {
+    logger.error("上传文件失败", { clientId, path, status: res.status, body: await res.text() });
+    throw new Error(`Failed to upload file: ${res.status} ${res.statusText}`);
+  }
+  const data = await res.json();
+  const result: UploadResult = {
+    path,
+    rawUrl: data.content.download_url,
+    cdnUrl: await githubCdnUrl(clientId, path),
+    sha: data.content.sha,
+    skipped: false,
+  };
+
+  const now = Date.now();
+  await saveUploadRecord({
+    path,
+    rawUrl: result.rawUrl,
+    cdnUrl: result.cdnUrl,
+    sha: result.sha,
+    mimeType,
+    size: bytes.length,
+    clientId,
+    createdAt: now,
+    updatedAt: now,
+  });
+  return result;
+}
+
+// ==================== 发布管理 ====================
+
+/**
+ * 自定义 key 允许的格式
+ */
+const PUBLICATION_KEY_PATTERN = "^[A-Za-z0-9_-]{1,64}$";
+
+/**
+ * 本服务器对外地址的默认值，HTTP 模式启动时按端口设置
+ */
+let defaultPublicBaseUrl = "http://localhost:3001";
+
+/**
+ * 按文件后缀推断内容类型
+ */
+function contentTypeForSuffix(suffix: string): string {
+  const types: Record<string, string> = {
+    ".html": "text/html",
+    ".htm": "text/html",
+    ".md": "text/markdown",
+    ".json": "application/json",
+    ".css": "text/css",
+    ".js": "text/javascript",
+    ".svg": "image/svg+xml",
+    ".xml": "application/xml",
+  };
+  const dot = suffix.lastIndexOf(".");
+  const ext = dot >= 0 ? suffix.slice(dot).toLowerCase() : "";
+  return `${types[ext] ?? "text/plain"}; charset=utf-8`;
+}
+
+/**
+ * 获取 github 发布后端中内容在仓库里的路径
+ * 没有后缀时按 text/plain 补 .txt，与 uploadFile 补全扩展名的结果一致
+ */
+function githubNotePath(key: string, suffix: string): string {
+  return `notes/${key}${suffix || ".txt"}`;
+}
+
+/**
+ * 获取 local 发布后端中文件的路径
+ */
+async function localPublishPath(fileName: string): Promise<string> {
+  const dir = await getServerConfig("publish-dir") as string;
+  return `${dir}/${fileName}`;
+}
+
+/**
+ * 可用的发布后端
+ */
+const PUBLISHERS: Record<PublishBackend, Publisher> = {
+  "tiny-server": {
+    name: "tiny-server",
+    description: "Tiny Server（可通过 tiny-server-url 配置自建实例）",
+    async publish(input, _clientId, signal) {
+      const baseUrl = await getServerConfig("tiny-server-url") as string;
+      const res = await httpClient.request("tiny-server", `${baseUrl}/set`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({ value: input.content, key: input.key }),
+        signal,
+      });
+
+      if (!res.ok) {
+        const errorText = await res.text();
+        logger.error("发布到 Tiny Server 失败", { key: input.key, status: res.status, body: errorText });
+        throw new Error(`Failed to publish: ${res.status} ${res.statusText}`);
+      }
+      await res.body?.cancel();
+
+      return { url: `${baseUrl}/${input.key}${input.suffix}` };
+    },
+    async exists(key, _suffix, _clientId, signal) {
+      const baseUrl = await getServerConfig("tiny-server-url") as string;
+      const res = await httpClient.request("tiny-server", `${baseUrl}/${encodeURIComponent(key)}`, { signal });
+      if (!res.ok) {
+        await res.body?.cancel();
+        return false;
+      }
+      return (await res.text()).length > 0;
+    },
+    async remove(record, signal) {
+      // Tiny Server 没有删除接口，以空内容覆盖
+      await this.publish({ key: record.key, content: "", suffix: record.suffix }, record.clientId, signal);
+    },
+    async read(record) {
+      const baseUrl = await getServerConfig("tiny-server-url") as string;
+      const res = await httpClient.request("tiny-server", `${baseUrl}/${encodeURIComponent(record.key)}`);
+      if (!res.ok) {
+        await res.body?.cancel();
+        throw new Error(`Failed to read: ${res.status} ${res.statusText}`);
+      }
+      return await res.text();
+    },
+  },
+  gist: {
+    name: "gist",
+    description: "GitHub Gist（私密），使用 github-token",
+    async publish(input, clientId, signal) {
+      const fileName = `${input.key}${input.suffix || ".md"}`;
+      const res = await githubRequest(clientId, input.remoteId ? `/gists/${input.remoteId}` : "/gists", {
+        method: input.remoteId ? "PATCH" : "POST",
+        body: JSON.stringify({
+          description: input.title ?? input.key,
+          public: false,
+          files: { [fileName]: { content: input.content } },
+        }),
+        signal,
+      });
+      if (!res.ok) {
+        logger.error("发布 Gist 失败", { key: input.key, status: res.status, body: await res.text() });
+        throw new Error(`Failed to publish gist: ${res.status} ${res.statusText}`);
+      }
+      const data = await res.json();
+      return { url: data.html_url, remoteId: data.id };
+    },
+    exists() {
+      // Gist ID 由 GitHub 分配，key 只需在本地记录中唯一
+      return Promise.resolve(false);
+    },
+    async remove(record, signal) {
+      if (!record.remoteId) return;
+      const res = await githubRequest(record.clientId, `/gists/${record.remoteId}`, { method: "DELETE", signal });
+      if (!res.ok && res.status !== 404) {
+        throw new Error(`Failed to delete gist: ${res.status} ${res.statusText}`);
+      }
+      await res.body?.cancel();
+    },
+    async read(record) {
+      if (!record.remoteId) {
+        throw new Error(`发布记录缺少 Gist ID: ${record.key}`);
+      }
+      const res = await githubRequest(record.clientId, `/gists/${record.remoteId}`);
+      if (!res.ok) {
+        await res.body?.cancel();
+        throw new Error(`Failed to read gist: ${res.status} ${res.statusText}`);
+      }
+      const data = await res.json();
+      const file = data.files[`${record.key}${record.suffix || ".md"}`] ?? Object.values(data.files)[0];
+      if (!file) {
+        throw new Error(`Gist 中没有文件: ${record.remoteId}`);
+      }
+      // 超过 1MB 的文件在 API 响应中会被截断，需要从 raw_url 获取
+      if (!file.truncated) return file.content;
+      const raw = await httpClient.request("github", file.raw_url);
+      return await raw.text();
+    },
+  },
+  github: {
+    name: "github",
+    description: "GitHub 仓库 notes/ 目录，使用 github-token 和 github-repo",
+    async publish(input, clientId, signal) {
+      const notePath = githubNotePath(input.key, input.suffix);
+      const { path, rawUrl } = await uploadFile({
+        content: bytesToBase64(new TextEncoder().encode(input.content)),
+        filename: notePath.slice(notePath.lastIndexOf("/") + 1),
+        message: input.title ?? input.key,
+        mimeType: contentTypeForSuffix(input.suffix).split(";")[0],
+        directory: notePath.slice(0, notePath.lastIndexOf("/") + 1),
+        mode: input.remoteId ? "overwrite" : "fail",
+      }, clientId, signal);
+      return { url: rawUrl, remoteId: path };
+    },
+    async exists(key, suffix, clientId, signal) {
+      return await getGithubFile(clientId, githubNotePath(key, suffix), signal) !== undefined;
+    },
+    async remove(record, signal) {
+      if (!record.remoteId) return;
+      await deleteGithubFile(record.clientId, record.remoteId, `Delete ${record.key} via MCP tool`, signal);
+    },
+    async read(record) {
+      const bytes = await readGithubFile(record.clientId, record.remoteId ?? githubNotePath(record.key, record.suffix));
+      return new TextDecoder().decode(bytes);
+    },
+  },
+  local: {
+    name: "local",
+    description: "本服务器的本地目录，通过 /p/:key 访问",
+    async publish(input) {
+      const fileName = input.key;
+      const path = await localPublishPath(fileName);
+      await Deno.mkdir(path.slice(0, path.lastIndexOf("/")), { recursive: true });
+      await Deno.writeTextFile(path, input.content);
+      const baseUrl = await getServerConfig("public-base-url") ?? defaultPublicBaseUrl;
+      return { url: `${baseUrl}/p/${input.key}${input.suffix}`, remoteId: fileName };
+    },
+    async exists(key) {
+      try {
+        await Deno.stat(await localPublishPath(key));
+        return true;
+      } catch (error) {
+        if (error instanceof Deno.errors.NotFound) return false;
+        throw error;
+      }
+    },
+    async remove(record) {
+      try {
+        await Deno.remove(await localPublishPath(record.remoteId ?? record.key));
+      } catch (error) {
+        if (!(error instanceof Deno.errors.NotFound)) throw error;
+      }
+    },
+    async read(record) {
+      return await Deno.readTextFile(await localPublishPath(record.remoteId ?? record.key));
+    },
+  },
+};
+
+/**
+ * 获取发布后端
+ * @param backend 指定的后端，未指定时使用 publish-backend 配置
+ */
+async function getPublisher(clientId: string, backend?: string): Promise<Publisher> {
+  const name = backend ?? await getConfig(clientId, "publish-backend") as string;
+  if (!Object.hasOwn(PUBLISHERS, name)) {
+    throw new Error(`未知发布后端: ${name}`);
+  }
+  return PUBLISHERS[name as PublishBackend];
+}
+
+/**
+ * 获取发布记录对应的后端
+ */
+function publisherOf(record: PublicationRecord): Publisher {
+  return PUBLISHERS[record.backend ?? "tiny-server"];
+}
+
+export async function getPublication(key: string): Promise<PublicationRecord | null> {
+  const kv = await getKv();
+  return (await kv.get<PublicationRecord>(["publications", key])).value;
+}
+
+/**
+ * 保存发布记录，并通知订阅了该资源的会话
+ */
+export async function savePublication(record: PublicationRecord): Promise<void> {
+  const kv = await getKv();
+  const existing = await kv.get<PublicationRecord>(["publications", record.key]);
+  await kv.set(["publications", record.key], record);
+  emitResourceEvent({ clientId: record.clientId, uri: publicationUri(record.key), listChanged: existing.value === null });
+}
+
+/**
+ * 列出客户端的全部发布记录，按创建时间倒序
+ */
+async function listPublications(clientId: string): Promise<PublicationRecord[]> {
+  const kv = await getKv();
+  const records: PublicationRecord[] = [];
+  for await (const entry of kv.list<PublicationRecord>({ prefix: ["publications"] })) {
+    if (entry.value.clientId === clientId) records.push(entry.value);
+  }
+  return records.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * 获取客户端拥有的发布记录，不存在或不属于该客户端时抛出错误
+ */
+async function getOwnedPublication(clientId: string, key: string): Promise<PublicationRecord> {
+  const record = await getPublication(key);
+  if (!record) {
+    throw new Error(`发布记录不存在: ${key}`);
+  }
+  if (record.clientId !== clientId) {
+    throw new Error(`无权操作其他客户端发布的内容: ${key}`);
+  }
+  return record;
+}
+
+/**
+ * 分配发布 key
+ * 指定自定义 key 时检测冲突，否则生成随机 key 并重试直到不冲突
+ */
+export async function allocatePublicationKey(
+  publisher: Publisher,
+  clientId: string,
+  suffix: string,
+  customKey?: string,
+  signal?: AbortSignal
+): Promise<string> {
+  if (customKey) {
+    if (await getPublication(customKey) || await publisher.exists(customKey, suffix, clientId, signal)) {
+      throw new Error(`key 已被占用: ${customKey}`);
+    }
+    return customKey;
+  }
+
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const key = generateShortKey();
+    if (!await getPublication(key) && !await publisher.exists(key, suffix, clientId, signal)) {
+      return key;
+    }
+  }
+  throw new Error("无法生成未被占用的 key，请稍后重试");
+}
+
+/**
+ * 计算过期时间
+ * @param expiresIn 有效期（秒）
+ */
+function computeExpiresAt(expiresIn: unknown): number | undefined {
+  return typeof expiresIn === "number" ? Date.now() + expiresIn * 1000 : undefined;
+}
+
+/**
+ * 删除远端内容和发布记录
+ */
+async function removePublication(record: PublicationRecord, signal?: AbortSignal): Promise<void> {
+  await publisherOf(record).remove(record, signal);
+  const kv = await getKv();
+  await kv.delete(["publications", record.key]);
+  emitResourceEvent({ clientId: record.clientId, uri: publicationUri(record.key), listChanged: true });
+}
+
+/**
+ * 清理已过期的发布内容
+ */
+export async function purgeExpiredPublications(): Promise<void> {
+  const kv = await getKv();
+  const now = Date.now();
+  for await (const entry of kv.list<PublicationRecord>({ prefix: ["publications"] })) {
+    const record = entry.value;
+    if (record.expiresAt === undefined || record.expiresAt > now) continue;
+    try {
+      await removePublication(record);
+      logger.info("已删除过期发布内容", { key: record.key, clientId: record.clientId });
+    } catch (error) {
+      logger.error("删除过期发布内容失败", { key: record.key, error });
+    }
+  }
+}
+
+/**
+ * 启动过期发布内容的定时清理
+ */
+function startPublicationSweeper(intervalMs = 60_000): void {
+  const timer = setInterval(() => {
+    purgeExpiredPublications().catch(error => logger.error("清理过期发布内容失败", { error }));
+  }, intervalMs);
+  // 不阻止进程退出（例如 stdio 输入结束时）
+  Deno.unrefTimer(timer);
+}
+
+// ==================== 图片生成 ====================
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * 生成纯色 PNG 图片
+ */
+async function createSolidPng(width: number, height: number, rgb: [number, number, number]): Promise<Uint8Array> {
+  const chunk = (type: string, data: Uint8Array): Uint8Array => {
+    const body = new Uint8Array(4 + data.length);
+    body.set(new TextEncoder().encode(type));
+    body.set(data, 4);
+    const out = new Uint8Array(12 + data.length);
+    const view = new DataView(out.buffer);
+    view.setUint32(0, data.length);
+    out.set(body, 4);
+    view.setUint32(8 + data.length, crc32(body));
+    return out;
+  };
+
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header.set([8, 2, 0, 0, 0], 8); // 8 位 RGB，无隔行
+
+  // 每行以滤波类型 0 开头
+  const raw = new Uint8Array(height * (1 + width * 3));
+  for (let y = 0; y < height; y++) {
+    const offset = y * (1 + width * 3);
+    for (let x = 0; x < width; x++) {
+      raw.set(rgb, offset + 1 + x * 3);
+    }
+  }
+  const compressed = new Uint8Array(
+    await new Response(new Blob([raw]).stream().pipeThrough(new CompressionStream("deflate"))).arrayBuffer()
+  );
+
+  const parts = [
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk("IHDR", header),
+    chunk("IDAT", compressed),
+    chunk("IEND", new Uint8Array()),
+  ];
+  const png = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    png.set(part, position);
+    position += part.length;
+  }
+  return png;
+}
+
+/**
+ * 解析尺寸字符串
+ */
+function parseImageSize(size: string | undefined, fallback: number): [number, number] {
+  const match = size?.match(/^(\d+)x(\d+)$/);
+  if (!match) return [fallback, fallback];
+  return [Number(match[1]), Number(match[2])];
+}
+
+/**
+ * 可用的图片生成服务
+ */
+export const IMAGE_PROVIDERS: Record<ImageProviderName, ImageProvider> = {
+  gemini: {
+    name: "gemini",
+    description: "Google Gemini 图片生成（不支持 size，count 通过多次请求实现）",
+    async generate(request, clientId, signal) {
+      const apiKey = await getConfig(clientId, "gemini-api-key");
+      if (!apiKey) {
+        throw new Error("未设置 gemini-api-key");
+      }
+      const baseUrl = (await getServerConfig("gemini-base-url") as string).replace(/\/+$/, "");
+      const model = await getConfig(clientId, "gemini-image-model") as string;
+      const result: ImageGenerationResult = { images: [], text: [] };
+
+      for (let i = 0; i < request.count; i++) {
+        const response = await httpClient.request(
+          "gemini",
+          `${baseUrl}/models/${encodeURIComponent(model)}:generateContent`,
+          {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              "x-goog-api-key": apiKey,
+            },
+            body: JSON.stringify({
+              contents: [{
+                parts: [
+                  { text: request.prompt }
+                ]
+              }],
+              generationConfig: {
+                responseModalities: ["Text", "Image"]
+              }
+            }),
+            signal,
+          }
+        );
+
+        if (!response.ok) {
+          throw new Error(`API 请求失败: ${response.status} ${response.statusText}`);
+        }
+
+        const data = await response.json() as {
+          candidates?: { content?: { parts?: { text?: string; inlineData?: { mimeType: string; data: string } }[] } }[];
+        };
+        for (const candidate of data.candidates ?? []) {
+          for (const part of candidate.content?.parts ?? []) {
+            if (part.inlineData?.data) {
+              result.images.push({ data: part.inlineData.data, mimeType: part.inlineData.mimeType || "image/png" });
+            } else if (part.text) {
+              result.text.push(part.text);
+            }
+          }
+        }
+      }
+
+      return result;
+    },
+  },
+  openai: {
+    name: "openai",
+    description: "OpenAI 兼容的 /images/generations 接口",
+    async generate(request, clientId, signal) {
+      const apiKey = await getConfig(clientId, "openai-api-key");
+      if (!apiKey) {
+        throw new Error("未设置 openai-api-key");
+      }
+      const baseUrl = (await getServerConfig("openai-base-url") as string).replace(/\/+$/, "");
+      const model = await getConfig(clientId, "openai-image-model") as string;
+
+      const response = await httpClient.request("openai", `${baseUrl}/images/generations`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${apiKey}`,
+        },
+        body: JSON.stringify({
+          model,
+          prompt: request.prompt,
+          n: request.count,
+          size: request.size,
+          // gpt-image 系列固定返回 base64，不接受 response_format
+          ...(model.startsWith("dall-e") ? { response_format: "b64_json" } : {}),
+        }),
+        signal,
+      });
+
+      if (!response.ok) {
+        logger.error("OpenAI 图片接口请求失败", { status: response.status, body: await response.text() });
+        throw new Error(`API 请求失败: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json() as { data?: { b64_json?: string; url?: string; revised_prompt?: string }[] };
+      const result: ImageGenerationResult = { images: [], text: [] };
+      for (const item of data.data ?? []) {
+        if (item.b64_json) {
+          const bytes = base64ToBytes(item.b64_json);
+          result.images.push({ data: item.b64_json, mimeType: sniffMimeType(bytes) ?? "image/png" });
+        } else if (item.url) {
+          // 只从接口所在的源下载，避免服务器替响应中的任意地址发起请求
+          const imageUrl = new URL(item.url, baseUrl);
+          if (imageUrl.origin !== new URL(baseUrl).origin) {
+            throw new Error(`图片地址不在 ${new URL(baseUrl).origin} 下: ${item.url}`);
+          }
+          const imageResponse = await httpClient.request("download", imageUrl.href, { signal });
+          if (!imageResponse.ok) {
+            throw new Error(`下载图片失败: ${imageResponse.status} ${imageResponse.statusText}`);
+          }
+          const bytes = new Uint8Array(await imageResponse.arrayBuffer());
+          result.images.push({ data: bytesToBase64(bytes), mimeType: sniffMimeType(bytes) ?? "image/png" });
+        }
+        if (item.revised_prompt) {
+          result.text.push(item.revised_prompt);
+        }
+      }
+      return result;
+    },
+  },
+  stub: {
+    name: "stub",
+    description: "本地确定性占位图（纯色 PNG，颜色由提示词决定），用于测试",
+    async generate(request) {
+      const [width, height] = parseImageSize(request.size, 64);
+      if (width > 1024 || height > 1024) {
+        throw new Error("stub 图片尺寸不能超过 1024x1024");
+      }
+      const result: ImageGenerationResult = { images: [], text: [] };
+      for (let i = 0; i < request.count; i++) {
+        const digest = new Uint8Array(
+          await crypto.subtle.digest("SHA-256", new TextEncoder().encode(`${request.prompt}#${i}`))
+        );
+        const png = await createSolidPng(width, height, [digest[0], digest[1], digest[2]]);
+        result.images.push({ data: bytesToBase64(png), mimeType: "image/png" });
+      }
+      result.text.push(`stub: ${request.prompt}`);
+      return result;
+    },
+  },
+};
+
+/**
+ * 获取图片生成服务
+ * @param provider 指定的服务，未指定时使用 image-provider 配置
+ */
+async function getImageProvider(clientId: string, provider?: string): Promise<ImageProvider> {
+  const name = provider ?? await getConfig(clientId, "image-provider") as string;
+  if (!Object.hasOwn(IMAGE_PROVIDERS, name)) {
+    throw new Error(`未知图片生成服务: ${name}`);
+  }
+  return IMAGE_PROVIDERS[name as ImageProviderName];
+}
+
+/**
+ * 是否配置了图片上传目标
+ */
+async function hasUploadTarget(clientId: string): Promise<boolean> {
+  return Boolean(await getConfig(clientId, "github-token") && await getConfig(clientId, "github-repo"));
+}
+
+/**
+ * 生成图片并返回结果
+ * 配置了 GitHub 上传目标时上传并返回 markdown 链接，否则直接返回图片内容
+ */
+async function generateImages(
+  args: Record<string, unknown>,
+  context: ToolContext,
+  provider?: ImageProviderName
+): Promise<CallToolResult> {
+  const prompt = args.prompt as string;
+
+  try {
+    const imageProvider = await getImageProvider(context.clientId, provider ?? args.provider as string | undefined);
+    // 进度按 100 计：生成占一半，上传在 55 到 100 之间按图片平分
+    await context.reportProgress(0, 100, `正在请求 ${imageProvider.name} 生成图片`);
+    const { images, text } = await imageProvider.generate({
+      prompt,
+      size: args.size as string | undefined,
+      count: (args.count as number | undefined) ?? 1,
+    }, context.clientId, context.signal);
+
+    if (images.length === 0) {
+      throw new Error(`未能从响应中提取图片数据${text.length ? `: ${text.join("\n")}` : ""}`);
+    }
+
+    await context.reportProgress(50, 100, `正在解析生成的 ${images.length} 张图片`);
+    context.logger.info("图片已生成", { provider: imageProvider.name, count: images.length });
+
+    const upload = args.upload !== false && await hasUploadTarget(context.clientId);
+    const content: CallToolResult["content"] = [];
+    if (text.length > 0) {
+      content.push({ type: "text", text: text.join("\n") });
+    }
+
+    for (const [index, image] of images.entries()) {
+      if (upload) {
+        await context.reportProgress(
+          55 + Math.floor(index * 45 / images.length),
+          100,
+          `正在上传第 ${index + 1}/${images.length} 张图片`
+        );
+        const { rawUrl } = await uploadFile({
+          content: image.data,
+          filename: generateShortKey(),
+          message: prompt,
+          mimeType: image.mimeType,
+        }, context.clientId, context.signal);
+        content.push({ type: "text", text: `![${prompt}](${rawUrl})` });
+      } else {
+        content.push({ type: "image", data: image.data, mimeType: image.mimeType });
+      }
+    }
+
+    await context.reportProgress(100, 100, "完成");
+    return { content, isError: false };
+  } catch (error) {
+    return createTextResponse(`生成图片失败: ${error instanceof Error ? error.message : String(error)}`, true);
+  }
+}
+
+// ==================== 日期时间 ====================
+
+/**
+ * 支持的格式标记，按长度降序排列以便最长匹配
+ */
+const DATE_FORMAT_TOKENS = [
+  "YYYY", "MMMM", "dddd", "MMM", "ddd", "SSS",
+  "YY", "MM", "DD", "HH", "hh", "mm", "ss", "ZZ",
+  "M", "D", "d", "H", "h", "m", "s", "A", "a", "Z", "X", "x",
+];
+
+const DATE_NAMES: Record<DateLocale, {
+  months: string[];
+  monthsShort: string[];
+  weekdays: string[];
+  weekdaysShort: string[];
+  meridiem: [string, string];
+}> = {
+  zh: {
+    months: ["一月", "二月", "三月", "四月", "五月", "六月", "七月", "八月", "九月", "十月", "十一月", "十二月"],
+    monthsShort: ["1月", "2月", "3月", "4月", "5月", "6月", "7月", "8月", "9月", "10月", "11月", "12月"],
+    weekdays: ["星期日", "星期一", "星期二", "星期三", "星期四", "星期五", "星期六"],
+    weekdaysShort: ["周日", "周一", "周二", "周三", "周四", "周五", "周六"],
+    meridiem: ["上午", "下午"],
+  },
+  en: {
+    months: ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"],
+    monthsShort: ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"],
+    weekdays: ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"],
+    weekdaysShort: ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"],
+    meridiem: ["AM", "PM"],
+  },
+};
+
+const DATE_FORMAT_DESCRIPTION =
+  "支持的标记: YYYY/YY(年), MMMM/MMM/MM/M(月), DD/D(日), dddd/ddd/d(星期), HH/H(24时), hh/h(12时), " +
+  "mm/m(分), ss/s(秒), SSS(毫秒), A/a(上下午), Z/ZZ(时区偏移，如 +08:00/+0800), X(秒级时间戳), x(毫秒时间戳)。" +
+  "用 [] 包裹或 \\ 前缀的文字原样输出";
+
+/**
+ * 服务器本地时区
+ */
+const LOCAL_TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const zonedFormatters: Map<string, Intl.DateTimeFormat> = new Map();
+
+/**
+ * 获取时区对应的格式化器，时区无效时抛出错误
+ */
+function getZonedFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = zonedFormatters.get(timeZone);
+  if (!formatter) {
+    try {
+      formatter = new Intl.DateTimeFormat("en-US", {
+        timeZone,
+        hourCycle: "h23",
+        year: "numeric",
+        month: "numeric",
+        day: "numeric",
+        hour: "numeric",
+        minute: "numeric",
+        second: "numeric",
+      });
+    } catch {
+      throw new Error(`无效的时区: ${timeZone}`);
+    }
+    zonedFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * 由日历字段计算 UTC 时间戳（字段视为 UTC 时间）
+ * 月、日、时等字段允许溢出，会自动进位
+ */
+function utcFromWallTime(
+  year: number,
+  month: number,
+  day: number,
+  hour = 0,
+  minute = 0,
+  second = 0,
+  millisecond = 0
+): number {
+  const date = new Date(0);
+  date.setUTCFullYear(year, month - 1, day);
+  date.setUTCHours(hour, minute, second, millisecond);
+  return date.getTime();
+}
+
+/**
+ * 获取时间戳在指定时区下的日历字段
+ */
+function getZonedParts(timestamp: number, timeZone: string): ZonedDateParts {
+  const parts: Record<string, string> = {};
+  for (const part of getZonedFormatter(timeZone).formatToParts(new Date(timestamp))) {
+    parts[part.type] = part.value;
+  }
+
+  const year = parts.era === "BC" ? 1 - Number(parts.year) : Number(parts.year);
+  const month = Number(parts.month);
+  const day = Number(parts.day);
+  const hour = Number(parts.hour);
+  const minute = Number(parts.minute);
+  const second = Number(parts.second);
+  const millisecond = ((timestamp % 1000) + 1000) % 1000;
+  const wallTime = utcFromWallTime(year, month, day, hour, minute, second, millisecond);
+
+  return {
+    year,
+    month,
+    day,
+    hour,
+    minute,
+    second,
+    millisecond,
+    weekday: new Date(utcFromWallTime(year, month, day)).getUTCDay(),
+    offset: Math.round((wallTime - timestamp) / 60000),
+  };
+}
+
+/**
+ * 将指定时区下的日历字段转换为时间戳
+ * 夏令时切换造成的不存在时刻按切换前的偏移顺延（如 02:30 变为 03:30），重复时刻取较早的一个
+ */
+function zonedTimeToTimestamp(
+  fields: Omit<ZonedDateParts, "weekday" | "offset">,
+  timeZone: string
+): number {
+  const wallTime = utcFromWallTime(
+    fields.year, fields.month, fields.day, fields.hour, fields.minute, fields.second, fields.millisecond
+  );
+  // 切换前后一天的偏移涵盖了该时刻可能使用的偏移
+  const offsetBefore = getZonedParts(wallTime - 86_400_000, timeZone).offset;
+  const offsetAfter = getZonedParts(wallTime + 86_400_000, timeZone).offset;
+  const candidates = [offsetBefore, offsetAfter]
+    .map(offset => wallTime - offset * 60000)
+    .filter(timestamp => wallTime - getZonedParts(timestamp, timeZone).offset * 60000 === timestamp);
+  if (candidates.length > 0) return Math.min(...candidates);
+  return wallTime - offsetBefore * 60000;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(utcFromWallTime(year, month + 1, 0)).getUTCDate();
+}
+
+/**
+ * 格式化时区偏移
+ * @param separator 时与分之间的分隔符
+ */
+function formatOffset(offset: number, separator: string): string {
+  const sign = offset < 0 ? "-" : "+";
+  const abs = Math.abs(offset);
+  const hours = Math.floor(abs / 60).toString().padStart(2, "0");
+  const minutes = (abs % 60).toString().padStart(2, "0");
+  return `${sign}${hours}${separator}${minutes}`;
+}
+
+/**
+ * 将格式字符串拆分为标记和字面文字
+ * [] 内的文字和 \ 后的单个字符视为字面文字
+ */
+function tokenizeDateFormat(format: string): FormatToken[] {
+  const tokens: FormatToken[] = [];
+  const pushLiteral = (text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last?.type === "literal") {
+      last.value += text;
+    } else {
+      tokens.push({ type: "literal", value: text });
+    }
+  };
+
+  let i = 0;
+  while (i < format.length) {
+    const char = format[i];
+    if (char === "[") {
+      const end = format.indexOf("]", i + 1);
+      if (end === -1) {
+        pushLiteral(format.slice(i + 1));
+        break;
+      }
+      pushLiteral(format.slice(i + 1, end));
+      i = end + 1;
+      continue;
+    }
+    if (char === "\\" && i + 1 < format.length) {
+      pushLiteral(format[i + 1]);
+      i += 2;
+      continue;
+    }
+    const token = DATE_FORMAT_TOKENS.find(t => format.startsWith(t, i));
+    if (token) {
+      tokens.push({ type: "token", value: token });
+      i += token.length;
+    } else {
+      pushLiteral(char);
+      i++;
+    }
+  }
+  return tokens;
+}
+
+/**
+ * 按格式输出时间
+ * @param timestamp 毫秒时间戳
+ * @param format 格式字符串
+ * @param timeZone IANA 时区
+ * @param locale 月份和星期名称的语言
+ */
+function formatDate(timestamp: number, format: string, timeZone: string, locale: DateLocale): string {
+  const p = getZonedParts(timestamp, timeZone);
+  const names = DATE_NAMES[locale];
+  const pad = (value: number, length = 2) => value.toString().padStart(length, "0");
+  const hour12 = p.hour % 12 === 0 ? 12 : p.hour % 12;
+
+  const values: Record<string, string> = {
+    YYYY: pad(p.year, 4),
+    YY: pad(((p.year % 100) + 100) % 100),
+    MMMM: names.months[p.month - 1],
+    MMM: names.monthsShort[p.month - 1],
+    MM: pad(p.month),
+    M: p.month.toString(),
+    DD: pad(p.day),
+    D: p.day.toString(),
+    dddd: names.weekdays[p.weekday],
+    ddd: names.weekdaysShort[p.weekday],
+    d: p.weekday.toString(),
+    HH: pad(p.hour),
+    H: p.hour.toString(),
+    hh: pad(hour12),
+    h: hour12.toString(),
+    mm: pad(p.minute),
+    m: p.minute.toString(),
+    ss: pad(p.second),
+    s: p.second.toString(),
+    SSS: pad(p.millisecond, 3),
+    A: names.meridiem[p.hour < 12 ? 0 : 1],
+    a: names.meridiem[p.hour < 12 ? 0 : 1].toLowerCase(),
+    ZZ: formatOffset(p.offset, ""),
+    Z: formatOffset(p.offset, ":"),
+    X: Math.floor(timestamp / 1000).toString(),
+    x: timestamp.toString(),
+  };
+
+  return tokenizeDateFormat(format)
+    .map(token => token.type === "token" ? values[token.value] : token.value)
+    .join("");
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * 按格式解析时间字符串
+ * 格式中没有 Z/ZZ 时，按 timeZone 解释日历字段
+ */
+function parseDateWithFormat(input: string, format: string, timeZone: string, locale: DateLocale): number {
+  const names = DATE_NAMES[locale];
+  const alternatives = (list: string[]) =>
+    `(${[...list].sort((a, b) => b.length - a.length).map(escapeRegExp).join("|")})`;
+
+  const patterns: Record<string, string> = {
+    YYYY: "([+-]?\\d{4})",
+    YY: "(\\d{2})",
+    MMMM: alternatives(names.months),
+    MMM: alternatives(names.monthsShort),
+    MM: "(\\d{2})",
+    M: "(\\d{1,2})",
+    DD: "(\\d{2})",
+    D: "(\\d{1,2})",
+    dddd: alternatives(names.weekdays),
+    ddd: alternatives(names.weekdaysShort),
+    d: "([0-6])",
+    HH: "(\\d{2})",
+    H: "(\\d{1,2})",
+    hh: "(\\d{2})",
+    h: "(\\d{1,2})",
+    mm: "(\\d{2})",
+    m: "(\\d{1,2})",
+    ss: "(\\d{2})",
+    s: "(\\d{1,2})",
+    SSS: "(\\d{3})",
+    A: alternatives([...names.meridiem, ...DATE_NAMES.en.meridiem]),
+    a: alternatives([...names.meridiem, ...DATE_NAMES.en.meridiem].map(m => m.toLowerCase())),
+    ZZ: "(Z|[+-]\\d{4})",
+    Z: "(Z|[+-]\\d{2}:\\d{2})",
+    X: "(-?\\d+)",
+    x: "(-?\\d+)",
+  };
+
+  const tokens = tokenizeDateFormat(format);
+  const fieldTokens: string[] = [];
+  let source = "^";
+  for (const token of tokens) {
+    if (token.type === "literal") {
+      source += escapeRegExp(token.value);
+    } else {
+      source += patterns[token.value];
+      fieldTokens.push(token.value);
+    }
+  }
+  source += "$";
+
+  const match = new RegExp(source, "i").exec(input.trim());
+  if (!match) {
+    throw new Error(`"${input}" 与格式 "${format}" 不匹配`);
+  }
+
+  const fields = { year: 1970, month: 1, day: 1, hour: 0, minute: 0, second: 0, millisecond: 0 };
+  let pm: boolean | undefined;
+  let offset: number | undefined;
+  const findIndex = (list: string[], value: string) =>
+    list.findIndex(item => item.toLowerCase() === value.toLowerCase());
+
+  for (let i = 0; i < fieldTokens.length; i++) {
+    const token = fieldTokens[i];
+    const value = match[i + 1];
+    switch (token) {
+      case "YYYY": fields.year = Number(value); break;
+      case "YY": fields.year = 2000 + Number(value); break;
+      case "MMMM": fields.month = findIndex(names.months, value) + 1; break;
+      case "MMM": fields.month = findIndex(names.monthsShort, value) + 1; break;
+      case "MM": case "M": fields.month = Number(value); break;
+      case "DD": case "D": fields.day = Number(value); break;
+      case "HH": case "H": case "hh": case "h": fields.hour = Number(value); break;
+      case "mm": case "m": fields.minute = Number(value); break;
+      case "ss": case "s": fields.second = Number(value); break;
+      case "SSS": fields.millisecond = Number(value); break;
+      case "A": case "a":
+        pm = findIndex([names.meridiem[1], DATE_NAMES.en.meridiem[1]], value) !== -1;
+        break;
+      case "ZZ": case "Z":
+        offset = value.toUpperCase() === "Z"
+          ? 0
+          : (value[0] === "-" ? -1 : 1) * (Number(value.slice(1, 3)) * 60 + Number(value.slice(-2)));
+        break;
+      case "X": return Number(value) * 1000;
+      case "x": return Number(value);
+    }
+  }
+
+  if (pm !== undefined) {
+    fields.hour = fields.hour % 12 + (pm ? 12 : 0);
+  }
+
+  if (
+    fields.month < 1 || fields.month > 12 ||
+    fields.day < 1 || fields.day > daysInMonth(fields.year, fields.month) ||
+    fields.hour > 23 || fields.minute > 59 || fields.second > 59
+  ) {
+    throw new Error(`"${input}" 不是有效的日期时间`);
+  }
+
+  if (offset !== undefined) {
+    return utcFromWallTime(
+      fields.year, fields.month, fields.day, fields.hour, fields.minute, fields.second, fields.millisecond
+    ) - offset * 60000;
+  }
+  return zonedTimeToTimestamp(fields, timeZone);
+}
+
+/**
+ * 解析日期参数
+ * 数字视为毫秒时间戳；不带时区的 'YYYY-MM-DD[ HH:mm[:ss[.SSS]]]' 按 timeZone 解释；
+ * 其余字符串（如带偏移的 ISO 8601）交给 Date.parse
+ */
+export function parseDateInput(value: unknown, timeZone: string): number {
+  if (value === undefined) return Date.now();
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) throw new Error(`无效的时间戳: ${value}`);
+    return value;
+  }
+
+  const text = String(value).trim();
+  if (/^-?\d+$/.test(text)) return Number(text);
+
+  const naive = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?)?$/.exec(text);
+  if (naive) {
+    const [, year, month, day, hour, minute, second, millisecond] = naive;
+    return parseDateWithFormat(
+      `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")} ${(hour ?? "0").padStart(2, "0")}:${minute ?? "00"}:${second ?? "00"}.${(millisecond ?? "0").padEnd(3, "0")}`,
+      "YYYY-MM-DD HH:mm:ss.SSS",
+      timeZone,
+      "en"
+    );
+  }
+
+  const timestamp = Date.parse(text);
+  if (Number.isNaN(timestamp)) {
+    throw new Error(`无法解析日期: ${text}`);
+  }
+  return timestamp;
+}
+
+/**
+ * 解析 ISO 8601 时长，例如 'P1Y2M3DT4H5M6S'、'PT90M'、'-P1W'
+ */
+function parseDuration(text: string): Duration {
+  const match = /^([+-])?P(?:(\d+)Y)?(?:(\d+)M)?(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i
+    .exec(text.trim());
+  if (!match || /^[+-]?P(T)?$/i.test(text.trim())) {
+    throw new Error(`无效的 ISO 8601 时长: ${text}`);
+  }
+  const sign = match[1] === "-" ? -1 : 1;
+  const num = (value: string | undefined) => value ? sign * Number(value) : 0;
+  return {
+    years: num(match[2]),
+    months: num(match[3]),
+    weeks: num(match[4]),
+    days: num(match[5]),
+    hours: num(match[6]),
+    minutes: num(match[7]),
+    seconds: num(match[8]),
+  };
+}
+
+/**
+ * 给时间加上时长
+ * 年、月、周、日按 timeZone 下的日历计算（月末自动截断），时、分、秒按绝对时间计算
+ */
+function addDuration(timestamp: number, duration: Duration, timeZone: string): number {
+  const p = getZonedParts(timestamp, timeZone);
+  const totalMonths = p.year * 12 + (p.month - 1) + duration.years * 12 + duration.months;
+  const year = Math.floor(totalMonths / 12);
+  const month = totalMonths - year * 12 + 1;
+  const day = Math.min(p.day, daysInMonth(year, month));
+
+  const shifted = new Date(utcFromWallTime(year, month, day + duration.weeks * 7 + duration.days));
+  const calendarResult = zonedTimeToTimestamp({
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+    hour: p.hour,
+    minute: p.minute,
+    second: p.second,
+    millisecond: p.millisecond,
+  }, timeZone);
+
+  return calendarResult + Math.round(
+    duration.hours * 3_600_000 + duration.minutes * 60_000 + duration.seconds * 1000
+  );
+}
+
+/**
+ * 计算两个时间之间相差的完整月数（按 timeZone 下的日历）
+ */
+function monthsBetween(from: number, to: number, timeZone: string): number {
+  const a = getZonedParts(from, timeZone);
+  const b = getZonedParts(to, timeZone);
+  let months = (b.year - a.year) * 12 + (b.month - a.month);
+  const emptyDuration = { years: 0, weeks: 0, days: 0, hours: 0, minutes: 0, seconds: 0 };
+  // 按日历加回去后超过终点说明最后一个月不完整
+  if (months > 0 && addDuration(from, { ...emptyDuration, months }, timeZone) > to) months--;
+  if (months < 0 && addDuration(from, { ...emptyDuration, months }, timeZone) < to) months++;
+  return months;
+}
+
+const TIME_UNITS_MS: Record<string, number> = {
+  milliseconds: 1,
+  seconds: 1000,
+  minutes: 60_000,
+  hours: 3_600_000,
+  days: 86_400_000,
+  weeks: 604_800_000,
+};
+
+/**
+ * 生成相对时间描述，例如 '3 天前'、'in 2 hours'
+ */
+function formatRelativeTime(timestamp: number, base: number, locale: DateLocale): string {
+  const formatter = new Intl.RelativeTimeFormat(locale === "zh" ? "zh-CN" : "en", { numeric: "auto" });
+  const diff = timestamp - base;
+  const abs = Math.abs(diff);
+
+  const thresholds: [Intl.RelativeTimeFormatUnit, number, number][] = [
+    ["second", 1000, 45_000],
+    ["minute", 60_000, 45 * 60_000],
+    ["hour", 3_600_000, 22 * 3_600_000],
+    ["day", 86_400_000, 26 * 86_400_000],
+    ["month", 30.44 * 86_400_000, 320 * 86_400_000],
+  ];
+  for (const [unit, size, limit] of thresholds) {
+    if (abs < limit) return formatter.format(Math.round(diff / size), unit);
+  }
+  return formatter.format(Math.round(diff / (365.25 * 86_400_000)), "year");
+}
+
+// ==================== JSON 工具 ====================
+
+/**
+ * 支持互相转换的数据格式
+ */
+const DATA_FORMATS = ["json", "json5", "yaml", "toml"];
+
+/**
+ * 定位 JSON 文本中第一个语法错误的位置
+ * @returns 字符偏移，文本合法时返回 -1
+ */
+function locateJsonError(text: string): number {
+  let i = 0;
+  const fail = (): never => {
+    throw i;
+  };
+  const skipWhitespace = () => {
+    while (i < text.length && " \t\n\r".includes(text[i])) i++;
+  };
+  const parseString = () => {
+    i++;
+    while (i < text.length) {
+      const char = text[i];
+      if (char === '"') {
+        i++;
+        return;
+      }
+      if (char === "\\") {
+        i++;
+        if (text[i] === "u") {
+          if (!/^[0-9a-fA-F]{4}$/.test(text.slice(i + 1, i + 5))) fail();
+          i += 5;
+          continue;
+        }
+        if (!'"\\/bfnrt'.includes(text[i] ?? "x")) fail();
+      } else if (char < " ") {
+        fail();
+      }
+      i++;
+    }
+    fail();
+  };
+  const parseValue = (): void => {
+    skipWhitespace();
+    const char = text[i];
+    if (char === "{" || char === "[") {
+      const close = char === "{" ? "}" : "]";
+      i++;
+      skipWhitespace();
+      if (text[i] === close) {
+        i++;
+        return;
+      }
+      for (;;) {
+        if (close === "}") {
+          skipWhitespace();
+          if (text[i] !== '"') fail();
+          parseString();
+          skipWhitespace();
+          if (text[i] !== ":") fail();
+          i++;
+        }
+        parseValue();
+        skipWhitespace();
+        if (text[i] === ",") {
+          i++;
+          continue;
+        }
+        if (text[i] === close) {
+          i++;
+          return;
+        }
+        fail();
+      }
+    }
+    if (char === '"') return parseString();
+    const number = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+    number.lastIndex = i;
+    if (number.test(text)) {
+      i = number.lastIndex;
+      return;
+    }
+    for (const literal of ["true", "false", "null"]) {
+      if (text.startsWith(literal, i)) {
+        i += literal.length;
+        return;
+      }
+    }
+    fail();
+  };
+
+  try {
+    parseValue();
+    skipWhitespace();
+    if (i < text.length) fail();
+    return -1;
+  } catch (position) {
+    return position as number;
+  }
+}
+
+/**
+ * 生成带行列号和脱字符标记的 JSON 错误说明
+ */
+function describeJsonError(text: string, error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  const position = locateJsonError(text);
+  if (position < 0) return message;
+
+  const before = text.slice(0, position);
+  const line = before.split("\n").length;
+  const lineStart = before.lastIndexOf("\n") + 1;
+  const lineEnd = text.indexOf("\n", position);
+  const column = position - lineStart + 1;
+
+  // 过长的行只截取错误位置附近
+  const lineText = text.slice(lineStart, lineEnd === -1 ? text.length : lineEnd).replace(/\r$/, "");
+  const start = Math.max(0, column - 41);
+  const snippet = lineText.slice(start, start + 80);
+  const caret = " ".repeat(column - 1 - start) + "^";
+
+  return `${message}\n第 ${line} 行，第 ${column} 列:\n${snippet}\n${caret}`;
+}
+
+/**
+ * 递归按键名排序对象
+ */
+function sortJsonKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortJsonKeys);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value).sort().map(key => [key, sortJsonKeys((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+/**
+ * JSONPath 路径段
+ */
+type JsonPathSegment =
+  | { type: "child"; selectors: (string | number)[] }
+  | { type: "wildcard"; recursive: boolean }
+  | { type: "descendant"; name: string }
+  | { type: "slice"; start?: number; end?: number; step: number }
+  | { type: "filter"; path: (string | number)[]; operator?: string; operand?: unknown };
+
+/**
+ * 解析 JSONPath 表达式
+ * 支持 $、.name、['name']、[0]、[-1]、[*]、.*、..name、..*、[0,1]、[start:end:step]、[?(@.a.b op value)]
+ */
+function parseJsonPath(expression: string): JsonPathSegment[] {
+  const text = expression.trim();
+  if (!text.startsWith("$")) {
+    throw new Error("JSONPath 必须以 $ 开头");
+  }
+
+  const segments: JsonPathSegment[] = [];
+  let i = 1;
+  const identifier = /[A-Za-z_$\u0080-\uffff][\w$\u0080-\uffff-]*/y;
+
+  const readIdentifier = (): string => {
+    identifier.lastIndex = i;
+    const match = identifier.exec(text);
+    if (!match) throw new Error(`JSONPath 第 ${i + 1} 个字符处应为属性名`);
+    i = identifier.lastIndex;
+    return match[0];
+  };
+
+  const parseSelector = (raw: string): string | number => {
+    const trimmed = raw.trim();
+    const quoted = /^(['"])(.*)\1$/s.exec(trimmed);
+    if (quoted) return quoted[2];
+    if (/^-?\d+$/.test(trimmed)) return Number(trimmed);
+    throw new Error(`无效的 JSONPath 选择器: ${trimmed}`);
+  };
+
+  while (i < text.length) {
+    if (text.startsWith("..", i)) {
+      i += 2;
+      if (text[i] === "*") {
+        i++;
+        segments.push({ type: "wildcard", recursive: true });
+      } else {
+        segments.push({ type: "descendant", name: readIdentifier() });
+      }
+    } else if (text[i] === ".") {
+      i++;
+      if (text[i] === "*") {
+        i++;
+        segments.push({ type: "wildcard", recursive: false });
+      } else {
+        segments.push({ type: "child", selectors: [readIdentifier()] });
+      }
+    } else if (text[i] === "[") {
+      const end = findClosingBracket(text, i);
+      const inner = text.slice(i + 1, end).trim();
+      i = end + 1;
+
+      if (inner === "*") {
+        segments.push({ type: "wildcard", recursive: false });
+      } else if (inner.startsWith("?")) {
+        const filter = /^\?\(\s*@((?:\.[\w$-]+|\[\d+\])*)\s*(?:(==|!=|<=|>=|<|>)\s*(.+?))?\s*\)$/s.exec(inner);
+        if (!filter) throw new Error(`无效的过滤表达式: ${inner}`);
+        const path = [...filter[1].matchAll(/\.([\w$-]+)|\[(\d+)\]/g)].map(m => m[1] ?? Number(m[2]));
+        segments.push({
+          type: "filter",
+          path,
+          operator: filter[2],
+          operand: filter[3] === undefined ? undefined : JSON.parse(filter[3].replace(/^'(.*)'$/s, '"$1"')),
+        });
+      } else if (/^-?\d*:-?\d*(:-?\d+)?$/.test(inner)) {
+        const [start, end, step] = inner.split(":");
+        segments.push({
+          type: "slice",
+          start: start ? Number(start) : undefined,
+          end: end ? Number(end) : undefined,
+          step: step ? Number(step) : 1,
+        });
+      } else {
+        segments.push({ type: "child", selectors: splitSelectors(inner).map(parseSelector) });
+      }
+    } else {
+      throw new Error(`JSONPath 第 ${i + 1} 个字符无效: ${text[i]}`);
+    }
+  }
+  return segments;
+}
+
+/**
+ * 查找与 [ 匹配的 ]，跳过引号内的内容
+ */
+function findClosingBracket(text: string, open: number): number {
+  let quote: string | undefined;
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === "\\") i++;
+      else if (char === quote) quote = undefined;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === "[" || char === "(") {
+      depth++;
+    } else if (char === "]" || char === ")") {
+      depth--;
+      if (depth === 0 && char === "]") return i;
+    }
+  }
+  throw new Error("JSONPath 中的 [ 未闭合");
+}
+
+/**
+ * 按逗号拆分选择器列表，忽略引号内的逗号
+ */
+function splitSelectors(inner: string): string[] {
+  const parts: string[] = [];
+  let quote: string | undefined;
+  let current = "";
+  for (let i = 0; i < inner.length; i++) {
+    const char = inner[i];
+    if (quote) {
+      if (char === "\\") {
+        current += inner[++i] ?? "";
+        continue;
+      }
+      if (char === quote) quote = undefined;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === ",") {
+      parts.push(current);
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts;
+}
+
+/**
+ * 生成规范化的 JSONPath
+ */
+function formatJsonPath(path: (string | number)[]): string {
+  return "$" + path.map(key =>
+    typeof key === "number" ? `[${key}]` : /^[A-Za-z_$][\w$]*$/.test(key) ? `.${key}` : `[${JSON.stringify(key)}]`
+  ).join("");
+}
+
+/**
+ * 列出值的直接子节点
+ */
+function jsonChildren(value: unknown): [string | number, unknown][] {
+  if (Array.isArray(value)) return value.map((item, index) => [index, item]);
+  if (value && typeof value === "object") return Object.entries(value);
+  return [];
+}
+
+/**
+ * 列出节点自身及其全部后代
+ */
+function jsonDescendants(node: { path: (string | number)[]; value: unknown }): { path: (string | number)[]; value: unknown }[] {
+  const result = [node];
+  for (const [key, child] of jsonChildren(node.value)) {
+    result.push(...jsonDescendants({ path: [...node.path, key], value: child }));
+  }
+  return result;
+}
+
+/**
+ * 执行 JSONPath 查询
+ * @returns 匹配节点的路径和值
+ */
+function queryJsonPath(document: unknown, expression: string): { path: string; value: unknown }[] {
+  let nodes: { path: (string | number)[]; value: unknown }[] = [{ path: [], value: document }];
+
+  for (const segment of parseJsonPath(expression)) {
+    const next: typeof nodes = [];
+    for (const node of nodes) {
+      switch (segment.type) {
+        case "child":
+          for (const selector of segment.selectors) {
+            if (Array.isArray(node.value) && typeof selector === "number") {
+              const index = selector < 0 ? node.value.length + selector : selector;
+              if (index >= 0 && index < node.value.length) {
+                next.push({ path: [...node.path, index], value: node.value[index] });
+              }
+            } else if (node.value && typeof node.value === "object" && !Array.isArray(node.value)) {
+              const key = String(selector);
+              if (Object.hasOwn(node.value, key)) {
+                next.push({ path: [...node.path, key], value: (node.value as Record<string, unknown>)[key] });
+              }
+            }
+          }
+          break;
+        case "wildcard": {
+          const sources = segment.recursive ? jsonDescendants(node) : [node];
+          for (const source of sources) {
+            for (const [key, child] of jsonChildren(source.value)) {
+              next.push({ path: [...source.path, key], value: child });
+            }
+          }
+          break;
+        }
+        case "descendant":
+          for (const source of jsonDescendants(node)) {
+            if (source.value && typeof source.value === "object" && !Array.isArray(source.value) &&
+              Object.hasOwn(source.value, segment.name)) {
+              next.push({
+                path: [...source.path, segment.name],
+                value: (source.value as Record<string, unknown>)[segment.name],
+              });
+            }
+          }
+          break;
+        case "slice": {
+          if (!Array.isArray(node.value)) break;
+          const length = node.value.length;
+          const normalize = (index: number) => index < 0 ? Math.max(length + index, 0) : Math.min(index, length);
+          if (segment.step <= 0) throw new Error("切片步长必须为正数");
+          const start = normalize(segment.start ?? 0);
+          const end = normalize(segment.end ?? length);
+          for (let index = start; index < end; index += segment.step) {
+            next.push({ path: [...node.path, index], value: node.value[index] });
+          }
+          break;
+        }
+        case "filter":
+          for (const [key, child] of jsonChildren(node.value)) {
+            let target: unknown = child;
+            for (const part of segment.path) {
+              target = target && typeof target === "object"
+                ? (target as Record<string | number, unknown>)[part]
+                : undefined;
+            }
+            if (matchesFilter(target, segment.operator, segment.operand)) {
+              next.push({ path: [...node.path, key], value: child });
+            }
+          }
+          break;
+      }
+    }
+    nodes = next;
+  }
+
+  return nodes.map(node => ({ path: formatJsonPath(node.path), value: node.value }));
+}
+
+function matchesFilter(value: unknown, operator: string | undefined, operand: unknown): boolean {
+  if (operator === undefined) return value !== undefined;
+  switch (operator) {
+    case "==": return JSON.stringify(value) === JSON.stringify(operand);
+    case "!=": return JSON.stringify(value) !== JSON.stringify(operand);
+  }
+  if (typeof value !== typeof operand || (typeof value !== "number" && typeof value !== "string")) return false;
+  const a = value as number | string;
+  const b = operand as number | string;
+  switch (operator) {
+    case "<": return a < b;
+    case "<=": return a <= b;
+    case ">": return a > b;
+    case ">=": return a >= b;
+  }
+  return false;
+}
+
+/**
+ * JSON 差异操作（RFC 6902 JSON Patch 格式，附带旧值）
+ */
+interface JsonDiffOperation {
+  op: "add" | "remove" | "replace";
+  path: string;
+  value?: unknown;
+  oldValue?: unknown;
+}
+
+/**
+ * 编码 JSON Pointer 路径段
+ */
+function escapeJsonPointer(key: string | number): string {
+  return String(key).replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+/**
+ * 比较两个 JSON 值的结构差异
+ */
+function diffJson(before: unknown, after: unknown, pointer = ""): JsonDiffOperation[] {
+  const isObject = (value: unknown) => value !== null && typeof value === "object" && !Array.isArray(value);
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const operations: JsonDiffOperation[] = [];
+    const common = Math.min(before.length, after.length);
+    for (let i = 0; i < common; i++) {
+      operations.push(...diffJson(before[i], after[i], `${pointer}/${i}`));
+    }
+    for (let i = common; i < after.length; i++) {
+      operations.push({ op: "add", path: `${pointer}/${i}`, value: after[i] });
+    }
+    // 从末尾开始删除，保证按顺序应用补丁时下标有效
+    for (let i = before.length - 1; i >= common; i--) {
+      operations.push({ op: "remove", path: `${pointer}/${i}`, oldValue: before[i] });
+    }
+    return operations;
+  }
+
+  if (isObject(before) && isObject(after)) {
+    const a = before as Record<string, unknown>;
+    const b = after as Record<string, unknown>;
+    const operations: JsonDiffOperation[] = [];
+    for (const key of Object.keys(a)) {
+      const path = `${pointer}/${escapeJsonPointer(key)}`;
+      if (!Object.hasOwn(b, key)) {
+        operations.push({ op: "remove", path, oldValue: a[key] });
+      } else {
+        operations.push(...diffJson(a[key], b[key], path));
+      }
+    }
+    for (const key of Object.keys(b)) {
+      if (!Object.hasOwn(a, key)) {
+        operations.push({ op: "add", path: `${pointer}/${escapeJsonPointer(key)}`, value: b[key] });
+      }
+    }
+    return operations;
+  }
+
+  if (JSON.stringify(before) === JSON.stringify(after)) return [];
+  return [{ op: "replace", path: pointer, value: after, oldValue: before }];
+}
+
+/**
+ * 按格式解析文本
+ */
+function parseDataFormat(text: string, format: string): unknown {
+  switch (format) {
+    case "json":
+      try {
+        return JSON.parse(text);
+      } catch (error) {
+        throw new Error(describeJsonError(text, error));
+      }
+    case "json5":
+      return JSON5.parse(text);
+    case "yaml":
+      return YAML.parse(text);
+    case "toml":
+      return TOML.parse(text);
+  }
+  throw new Error(`不支持的格式: ${format}`);
+}
+
+/**
+ * 查找值中第一个 null 的路径，不存在时返回 undefined
+ */
+function findNullPath(value: unknown, path = ""): string | undefined {
+  if (value === null) return path || "(根)";
+  if (typeof value !== "object") return undefined;
+  for (const [key, item] of Object.entries(value)) {
+    const found = findNullPath(item, joinPath(path, Array.isArray(value) ? Number(key) : key));
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * 将值序列化为指定格式
+ */
+function stringifyDataFormat(value: unknown, format: string, indent: number): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify(value, null, indent);
+    case "json5":
+      return JSON5.stringify(value, null, indent);
+    case "yaml":
+      return YAML.stringify(value, { indent: Math.max(indent, 1) });
+    case "toml": {
+      if (!value || typeof value !== "object" || Array.isArray(value)) {
+        throw new Error("TOML 的顶层必须是对象");
+      }
+      const nullPath = findNullPath(value);
+      if (nullPath) {
+        throw new Error(`TOML 无法表示 null（位于 ${nullPath}）`);
+      }
+      return TOML.stringify(value as Record<string, unknown>);
+    }
+  }
+  throw new Error(`不支持的格式: ${format}`);
+}
+
+// ==================== 文本分析 ====================
+
+/**
+ * 书写系统分类，按顺序匹配
+ */
+const SCRIPT_PATTERNS: [string, RegExp][] = [
+  ["han", /\p{Script=Han}/u],
+  ["hiragana", /\p{Script=Hiragana}/u],
+  ["katakana", /\p{Script=Katakana}/u],
+  ["hangul", /\p{Script=Hangul}/u],
+  ["latin", /\p{Script=Latin}/u],
+  ["cyrillic", /\p{Script=Cyrillic}/u],
+  ["greek", /\p{Script=Greek}/u],
+  ["arabic", /\p{Script=Arabic}/u],
+  ["thai", /\p{Script=Thai}/u],
+  ["digit", /\p{Nd}/u],
+  ["emoji", /\p{Extended_Pictographic}|\p{Regional_Indicator}/u],
+  ["whitespace", /\s/u],
+  ["punctuation", /[\p{P}\p{S}]/u],
+];
+
+/** 以字为单位阅读的书写系统 */
+const CJK_SCRIPTS = ["han", "hiragana", "katakana", "hangul"];
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+/** 中日韩文字阅读速度（字/分钟） */
+const CJK_CHARS_PER_MINUTE = 300;
+
+/** 其他语言阅读速度（词/分钟） */
+const WORDS_PER_MINUTE = 200;
+
+/**
+ * 估算英文单词的音节数
+ */
+function countSyllables(word: string): number {
+  const normalized = word.toLowerCase().replace(/[^a-z]/g, "");
+  if (!normalized) return 0;
+  if (normalized.length <= 3) return 1;
+  const trimmed = normalized.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, "").replace(/^y/, "");
+  return Math.max(1, trimmed.match(/[aeiouy]{1,2}/g)?.length ?? 1);
+}
+
+/**
+ * 分析文本
+ * @param text 要分析的文本
+ * @param locale 分词和分句使用的语言
+ */
+function analyzeText(text: string, locale: string): TextStats {
+  const graphemes = Array.from(new Intl.Segmenter(locale, { granularity: "grapheme" }).segment(text), s => s.segment);
+
+  const scripts: Record<string, number> = {};
+  const frequency: Map<string, number> = new Map();
+  for (const grapheme of graphemes) {
+    const script = SCRIPT_PATTERNS.find(([, pattern]) => pattern.test(grapheme))?.[0] ?? "other";
+    scripts[script] = (scripts[script] ?? 0) + 1;
+    frequency.set(grapheme, (frequency.get(grapheme) ?? 0) + 1);
+  }
+
+  // 中日韩文字按词典分词，每个词计为一个单词
+  const wordSegments = Array.from(new Intl.Segmenter(locale, { granularity: "word" }).segment(text))
+    .filter(s => s.isWordLike);
+  const latinWords = wordSegments.filter(s => /\p{Script=Latin}/u.test(s.segment));
+  const sentences = Array.from(new Intl.Segmenter(locale, { granularity: "sentence" }).segment(text))
+    .filter(s => s.segment.trim()).length;
+
+  const cjkChars = CJK_SCRIPTS.reduce((sum, script) => sum + (scripts[script] ?? 0), 0);
+  const nonCjkWords = wordSegments.filter(s => !CJK_PATTERN.test(s.segment)).length;
+  const whitespace = scripts.whitespace ?? 0;
+
+  // 经验值：中日韩文字约 1.2 token/字，emoji 约 2 token，其余约 4 字符/token
+  const otherChars = graphemes.length - cjkChars - whitespace - (scripts.emoji ?? 0);
+  const estimatedTokens = Math.ceil(cjkChars * 1.2 + (scripts.emoji ?? 0) * 2 + otherChars / 4);
+
+  const readingSeconds = Math.round((cjkChars / CJK_CHARS_PER_MINUTE + nonCjkWords / WORDS_PER_MINUTE) * 60);
+
+  let readability: TextStats["readability"] = null;
+  if (latinWords.length >= 10 && sentences > 0) {
+    const syllables = latinWords.reduce((sum, s) => sum + countSyllables(s.segment), 0);
+    const wordsPerSentence = latinWords.length / sentences;
+    const syllablesPerWord = syllables / latinWords.length;
+    readability = {
+      fleschReadingEase: Math.round((206.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord) * 10) / 10,
+      fleschKincaidGrade: Math.round((0.39 * wordsPerSentence + 11.8 * syllablesPerWord - 15.59) * 10) / 10,
+      syllables,
+    };
+  }
+
+  return {
+    characters: graphemes.length,
+    charactersNoSpaces: graphemes.length - whitespace,
+    codeUnits: text.length,
+    words: wordSegments.length,
+    sentences,
+    lines: text.split(/\r\n|\r|\n/).length,
+    paragraphs: text.split(/(?:\r?\n)\s*(?:\r?\n)/).filter(p => p.trim()).length,
+    scripts,
+    estimatedTokens,
+    readingTime: { minutes: Math.round(readingSeconds / 6) / 10, seconds: readingSeconds },
+    readability,
+    topCharacters: Array.from(frequency.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 10)
+      .map(([character, count]) => ({ character, count })),
+  };
+}
+
+// ==================== 进制转换 ====================
+
+const BASE_PREFIXES: Record<string, number> = { "0x": 16, "0b": 2, "0o": 8 };
+
+/**
+ * 支持的位宽
+ */
+const BIT_WIDTHS = [8, 16, 32, 64];
+
+/**
+ * 按进制解析数字字符串
+ * 支持正负号、0x/0b/0o 前缀、小数点和 _ 分隔符，遇到无效字符时报告其位置
+ * @param input 数字字符串
+ * @param fromBase 原始进制，省略时根据前缀推断，默认十进制
+ */
+export function parseNumberInBase(input: string, fromBase?: number): ParsedNumber {
+  const leading = input.length - input.trimStart().length;
+  const text = input.trim();
+  let i = 0;
+
+  let negative = false;
+  if (text[i] === "-" || text[i] === "+") {
+    negative = text[i] === "-";
+    i++;
+  }
+
+  const prefix = text.slice(i, i + 2).toLowerCase();
+  const prefixBase = BASE_PREFIXES[prefix];
+  const base = fromBase ?? prefixBase ?? 10;
+  if (prefixBase !== undefined && prefixBase === base) {
+    i += 2;
+  }
+
+  let integer = 0n;
+  let numerator = 0n;
+  let denominator = 1n;
+  let inFraction = false;
+  let digits = 0;
+  const bigBase = BigInt(base);
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+    if (char === "_") continue;
+    if (char === ".") {
+      if (inFraction) {
+        throw new Error(`第 ${leading + i + 1} 个字符处出现多余的小数点`);
+      }
+      inFraction = true;
+      continue;
+    }
+
+    const digit = parseInt(char, 36);
+    if (Number.isNaN(digit) || digit >= base) {
+      const hint = prefixBase !== undefined && fromBase !== undefined && prefixBase !== fromBase
+        ? `（前缀 ${prefix} 表示 ${prefixBase} 进制，与 fromBase=${fromBase} 不一致）`
+        : "";
+      throw new Error(`第 ${leading + i + 1} 个字符 "${char}" 不是有效的 ${base} 进制数字${hint}`);
+    }
+
+    digits++;
+    if (inFraction) {
+      numerator = numerator * bigBase + BigInt(digit);
+      denominator *= bigBase;
+    } else {
+      integer = integer * bigBase + BigInt(digit);
+    }
+  }
+
+  if (digits === 0) {
+    throw new Error(`"${input}" 中没有数字`);
+  }
+
+  return { negative, integer, numerator, denominator, base };
+}
+
+/**
+ * 将解析后的数字转换为目标进制
+ * @param precision 小数部分最多保留的位数
+ * @returns 转换结果，以及小数部分是否因位数限制被截断
+ */
+export function formatNumberInBase(
+  value: ParsedNumber,
+  toBase: number,
+  precision: number
+): { text: string; truncated: boolean } {
+  let text = value.integer.toString(toBase);
+
+  let remainder = value.numerator;
+  let fraction = "";
+  const bigBase = BigInt(toBase);
+  while (remainder !== 0n && fraction.length < precision) {
+    remainder *= bigBase;
+    fraction += Number(remainder / value.denominator).toString(toBase);
+    remainder %= value.denominator;
+  }
+  if (fraction) text += `.${fraction}`;
+
+  const isZero = value.integer === 0n && value.numerator === 0n;
+  return { text: value.negative && !isZero ? `-${text}` : text, truncated: remainder !== 0n };
+}
+
+/**
+ * 生成整数在指定位宽下的补码表示
+ */
+export function twosComplementView(value: ParsedNumber, bitWidth: number) {
+  if (value.numerator !== 0n) {
+    throw new Error("位宽视图只支持整数");
+  }
+  const signed = value.negative ? -value.integer : value.integer;
+  const width = BigInt(bitWidth);
+  const min = -(1n << (width - 1n));
+  const max = (1n << width) - 1n;
+  if (signed < min || signed > max) {
+    throw new Error(`${signed} 超出 ${bitWidth} 位可表示的范围 [${min}, ${max}]`);
+  }
+
+  const unsigned = signed < 0n ? (1n << width) + signed : signed;
+  const asSigned = unsigned >= (1n << (width - 1n)) ? unsigned - (1n << width) : unsigned;
+  const group = (text: string, size: number) => text.match(new RegExp(`.{1,${size}}`, "g"))!.join("_");
+
+  return {
+    bitWidth,
+    unsigned: unsigned.toString(),
+    signed: asSigned.toString(),
+    binary: group(unsigned.toString(2).padStart(bitWidth, "0"), 4),
+    hex: `0x${unsigned.toString(16).padStart(bitWidth / 4, "0").toUpperCase()}`,
+    octal: `0o${unsigned.toString(8)}`,
+  };
+}
+
+// ==================== 随机生成 ====================
+
+const CROCKFORD_BASE32 = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+const NANOID_ALPHABET = "useandom-26T198340PX75pxJACKVERYMINDBUSHWOLF_GQZbfghjklqvwyzrict";
+
+const CHARSETS: Record<string, string> = {
+  alphanumeric: "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789",
+  alpha: "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz",
+  numeric: "0123456789",
+  hex: "0123456789abcdef",
+};
+
+const PASSWORD_CLASSES: Record<PasswordClass, string> = {
+  lower: "abcdefghijklmnopqrstuvwxyz",
+  upper: "ABCDEFGHIJKLMNOPQRSTUVWXYZ",
+  digit: "0123456789",
+  symbol: "!@#$%^&*()-_=+[]{};:,.<>?/~",
+};
+
+/**
+ * 容易混淆的字符
+ */
+const AMBIGUOUS_CHARS = new Set(["I", "l", "1", "O", "0", "o", "|", "`", "'", "\""]);
+
+/**
+ * 单次批量生成的上限
+ */
+const MAX_RANDOM_COUNT = 1000;
+
+/**
+ * 将种子字符串散列为 128 位初始状态（cyrb128）
+ */
+function hashSeed(seed: string): [number, number, number, number] {
+  let h1 = 1779033703, h2 = 3144134277, h3 = 1013904242, h4 = 2773480762;
+  for (let i = 0; i < seed.length; i++) {
+    const k = seed.charCodeAt(i);
+    h1 = h2 ^ Math.imul(h1 ^ k, 597399067);
+    h2 = h3 ^ Math.imul(h2 ^ k, 2869860233);
+    h3 = h4 ^ Math.imul(h3 ^ k, 951274213);
+    h4 = h1 ^ Math.imul(h4 ^ k, 2716044179);
+  }
+  h1 = Math.imul(h3 ^ (h1 >>> 18), 597399067);
+  h2 = Math.imul(h4 ^ (h2 >>> 22), 2869860233);
+  h3 = Math.imul(h1 ^ (h3 >>> 17), 951274213);
+  h4 = Math.imul(h2 ^ (h4 >>> 19), 2716044179);
+  h1 ^= h2 ^ h3 ^ h4;
+  h2 ^= h1;
+  h3 ^= h1;
+  h4 ^= h1;
+  return [h1 >>> 0, h2 >>> 0, h3 >>> 0, h4 >>> 0];
+}
+
+/**
+ * 创建随机源
+ * @param seed 种子，省略时使用 crypto.getRandomValues；指定时使用 sfc32 生成可复现序列（不具备密码学安全性）
+ */
+function createRandomSource(seed?: string): RandomSource {
+  let uint32: () => number;
+  let bytes: (length: number) => Uint8Array;
+
+  if (seed === undefined) {
+    const buffer = new Uint32Array(64);
+    let offset = buffer.length;
+    uint32 = () => {
+      if (offset >= buffer.length) {
+        crypto.getRandomValues(buffer);
+        offset = 0;
+      }
+      return buffer[offset++];
+    };
+    bytes = (length) => {
+      const result = new Uint8Array(length);
+      // getRandomValues 单次最多填充 65536 字节
+      for (let i = 0; i < length; i += 65536) {
+        crypto.getRandomValues(result.subarray(i, i + 65536));
+      }
+      return result;
+    };
+  } else {
+    let [a, b, c, d] = hashSeed(seed);
+    uint32 = () => {
+      const t = (((a + b) >>> 0) + d) >>> 0;
+      d = (d + 1) >>> 0;
+      a = b ^ (b >>> 9);
+      b = (c + (c << 3)) >>> 0;
+      c = ((c << 21) | (c >>> 11)) >>> 0;
+      c = (c + t) >>> 0;
+      return t;
+    };
+    // 丢弃前若干个输出，避免相近种子的初始输出相关
+    for (let i = 0; i < 15; i++) uint32();
+    bytes = (length) => {
+      const result = new Uint8Array(length);
+      for (let i = 0; i < length; i += 4) {
+        const value = uint32();
+        for (let j = 0; j < 4 && i + j < length; j++) {
+          result[i + j] = (value >>> (j * 8)) & 0xff;
+        }
+      }
+      return result;
+    };
+  }
+
+  const TWO_32 = 2 ** 32;
+  const TWO_53 = 2 ** 53;
+  const uint53 = () => (uint32() >>> 11) * TWO_32 + uint32();
+
+  return {
+    seeded: seed !== undefined,
+    bytes,
+    uint32,
+    int(max: number): number {
+      if (!Number.isInteger(max) || max <= 0 || max > TWO_53) {
+        throw new Error(`随机范围无效: ${max}`);
+      }
+      // 拒绝采样，避免取模偏差
+      if (max <= TWO_32) {
+        const limit = TWO_32 - (TWO_32 % max);
+        let value = uint32();
+        while (value >= limit) value = uint32();
+        return value % max;
+      }
+      const limit = TWO_53 - (TWO_53 % max);
+      let value = uint53();
+      while (value >= limit) value = uint53();
+      return value % max;
+    },
+    float(): number {
+      return uint53() / TWO_53;
+    },
+  };
+}
+
+/**
+ * 从字符集中随机生成字符串，按码点处理以支持非 ASCII 字符
+ */
+function randomString(source: RandomSource, charset: string, length: number): string {
+  const chars = [...charset];
+  let result = "";
+  for (let i = 0; i < length; i++) {
+    result += chars[source.int(chars.length)];
+  }
+  return result;
+}
+
+/**
+ * Fisher-Yates 洗牌，返回新数组
+ */
+function shuffle<T>(source: RandomSource, items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = source.int(i + 1);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * 按权重随机选择下标
+ */
+function weightedIndex(source: RandomSource, weights: number[]): number {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (!(total > 0)) {
+    throw new Error("权重之和必须大于 0");
+  }
+  let target = source.float() * total;
+  for (let i = 0; i < weights.length; i++) {
+    target -= weights[i];
+    if (target < 0) return i;
+  }
+  // 浮点误差兜底：返回最后一个权重非零的下标
+  return weights.findLastIndex(weight => weight > 0);
+}
+
+/**
+ * 将 16 字节格式化为 UUID 字符串
+ */
+function formatUuid(bytes: Uint8Array): string {
+  const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, "0")).join("");
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * 生成 UUID v4
+ */
+function generateUuidV4(source: RandomSource): string {
+  const bytes = source.bytes(16);
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  return formatUuid(bytes);
+}
+
+/**
+ * 生成 UUID v7（前 48 位为毫秒时间戳）
+ */
+function generateUuidV7(source: RandomSource, timestamp = Date.now()): string {
+  const bytes = source.bytes(16);
+  let time = timestamp;
+  for (let i = 5; i >= 0; i--) {
+    bytes[i] = time % 256;
+    time = Math.floor(time / 256);
+  }
+  bytes[6] = (bytes[6] & 0x0f) | 0x70;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  return formatUuid(bytes);
+}
+
+/**
+ * 创建单调递增的 ULID 生成器
+ * 同一毫秒内生成的 ULID 在上一个的随机部分上加一，保证批量结果有序且不重复
+ */
+function createUlidGenerator(source: RandomSource, now: () => number = Date.now) {
+  const RANDOM_BITS = 80n;
+  let lastTime = -1;
+  let lastRandom = 0n;
+
+  const encode = (value: bigint, length: number) => {
+    let text = "";
+    for (let i = 0; i < length; i++) {
+      text = CROCKFORD_BASE32[Number(value & 31n)] + text;
+      value >>= 5n;
+    }
+    return text;
+  };
+
+  return (): string => {
+    const time = now();
+    if (time === lastTime) {
+      lastRandom += 1n;
+      if (lastRandom >> RANDOM_BITS) {
+        throw new Error("同一毫秒内生成的 ULID 过多");
+      }
+    } else {
+      lastTime = time;
+      lastRandom = Array.from(source.bytes(10)).reduce((value, byte) => (value << 8n) | BigInt(byte), 0n);
+    }
+    return encode(BigInt(time), 10) + encode(lastRandom, 16);
+  };
+}
+
+/**
+ * 按策略生成密码，每个必需的字符类别至少出现一次
+ * @param classes 必须包含的字符类别
+ * @param excludeAmbiguous 是否排除 I l 1 O 0 等易混淆字符
+ * @param symbols 自定义符号集，覆盖默认符号
+ */
+function generatePassword(
+  source: RandomSource,
+  length: number,
+  classes: PasswordClass[],
+  excludeAmbiguous: boolean,
+  symbols?: string
+): string {
+  if (classes.length === 0) {
+    throw new Error("至少需要一个字符类别");
+  }
+  if (length < classes.length) {
+    throw new Error(`密码长度不能小于必需的字符类别数 ${classes.length}`);
+  }
+
+  const pools = classes.map(name => {
+    const chars = [...(name === "symbol" && symbols ? symbols : PASSWORD_CLASSES[name])]
+      .filter(char => !excludeAmbiguous || !AMBIGUOUS_CHARS.has(char));
+    if (chars.length === 0) {
+      throw new Error(`字符类别 ${name} 在排除易混淆字符后为空`);
+    }
+    return chars.join("");
+  });
+
+  const required = pools.map(pool => randomString(source, pool, 1));
+  const rest = randomString(source, pools.join(""), length - required.length);
+  return shuffle(source, [...required, ...rest]).join("");
+}
+
+/**
+ * 批量生成随机值
+ * @param unique 是否保证批量内不重复，重复时重新生成，多次失败后报错
+ */
+function generateBatch<T>(count: number, unique: boolean, produce: () => T): T[] {
+  if (!unique) {
+    return Array.from({ length: count }, produce);
+  }
+
+  const seen = new Set<string>();
+  const results: T[] = [];
+  let attempts = 0;
+  const maxAttempts = count * 20 + 100;
+  while (results.length < count) {
+    if (attempts++ >= maxAttempts) {
+      throw new Error(`无法生成 ${count} 个不重复的值，请扩大取值范围`);
+    }
+    const value = produce();
+    const key = JSON.stringify(value);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    results.push(value);
+  }
+  return results;
+}
+
+// ==================== 单位转换 ====================
+
+const BASE_DIMENSIONS: BaseDimension[] = ["length", "mass", "time", "temperature", "data", "angle"];
+
+/**
+ * 单位类别，系数均相对于该类别的 SI 基本单位（数据量以字节为基本单位）
+ */
+const UNIT_CATEGORIES: Record<string, UnitCategoryDefinition> = {
+  length: {
+    label: "长度",
+    dimension: { length: 1 },
+    units: [
+      ["m", 1, "米", ["meter", "meters", "metre", "metres", "米", "公尺"]],
+      ["km", 1000, "千米", ["kilometer", "kilometers", "kilometre", "kilometres", "千米", "公里"]],
+      ["Mm", 1e6, "兆米", ["megameter", "megameters", "megametre", "megametres", "兆米"]],
+      ["cm", 0.01, "厘米", ["centimeter", "centimeters", "centimetre", "厘米", "公分"]],
+      ["mm", 0.001, "毫米", ["millimeter", "millimeters", "millimetre", "毫米"]],
+      ["um", 1e-6, "微米", ["µm", "μm", "micrometer", "micron", "微米"]],
+      ["nm", 1e-9, "纳米", ["nanometer", "nanometre", "纳米"]],
+      ["in", 0.0254, "英寸", ["inch", "inches", "英寸"]],
+      ["ft", 0.3048, "英尺", ["foot", "feet", "英尺"]],
+      ["yd", 0.9144, "码", ["yard", "yards", "码"]],
+      ["mi", 1609.344, "英里", ["mile", "miles", "英里"]],
+      ["nmi", 1852, "海里", ["nautical mile", "海里"]],
+      ["里", 500, "里", ["li", "市里"]],
+      ["丈", 10 / 3, "丈", ["zhang", "市丈"]],
+      ["尺", 1 / 3, "尺", ["chi", "市尺"]],
+      ["寸", 1 / 30, "寸", ["cun", "市寸"]],
+    ],
+  },
+  weight: {
+    label: "重量",
+    dimension: { mass: 1 },
+    units: [
+      ["kg", 1, "千克", ["kilogram", "kilograms", "千克", "公斤"]],
+      ["g", 0.001, "克", ["gram", "grams", "克"]],
+      ["mg", 1e-6, "毫克", ["milligram", "milligrams", "毫克"]],
+      ["ug", 1e-9, "微克", ["µg", "μg", "microgram", "微克"]],
+      ["t", 1000, "吨", ["tonne", "tonnes", "ton", "metric ton", "吨", "公吨"]],
+      ["oz", 0.028349523125, "盎司", ["ounce", "ounces", "盎司"]],
+      ["lb", 0.45359237, "磅", ["lbs", "pound", "pounds", "磅"]],
+      ["st", 6.35029318, "英石", ["stone", "英石"]],
+      ["ct", 0.0002, "克拉", ["carat", "carats", "克拉"]],
+      ["斤", 0.5, "斤", ["jin", "市斤"]],
+      ["两", 0.05, "两", ["liang", "市两"]],
+      ["钱", 0.005, "钱", ["qian", "市钱"]],
+    ],
+  },
+  time: {
+    label: "时间",
+    dimension: { time: 1 },
+    units: [
+      ["s", 1, "秒", ["sec", "second", "seconds", "秒"]],
+      ["ms", 0.001, "毫秒", ["millisecond", "milliseconds", "毫秒"]],
+      ["us", 1e-6, "微秒", ["µs", "μs", "microsecond", "microseconds", "微秒"]],
+      ["ns", 1e-9, "纳秒", ["nanosecond", "nanoseconds", "纳秒"]],
+      ["min", 60, "分钟", ["minute", "minutes", "分", "分钟"]],
+      ["h", 3600, "小时", ["hr", "hour", "hours", "时", "小时"]],
+      ["day", 86400, "天", ["d", "days", "天", "日"]],
+      ["week", 604800, "周", ["wk", "weeks", "周", "星期"]],
+      ["month", 2592000, "月（按 30 天）", ["months", "月"]],
+      ["year", 31536000, "年（按 365 天）", ["yr", "years", "年"]],
+    ],
+  },
+  temperature: {
+    label: "温度",
+    dimension: { temperature: 1 },
+    units: [
+      ["K", 1, "开尔文", ["kelvin", "开", "开尔文"]],
+      ["C", 1, "摄氏度", ["°C", "℃", "celsius", "摄氏度"], 273.15],
+      ["F", 5 / 9, "华氏度", ["°F", "℉", "fahrenheit", "华氏度"], 273.15 - 32 * 5 / 9],
+      ["R", 5 / 9, "兰氏度", ["°R", "rankine", "兰氏度"]],
+    ],
+  },
+  area: {
+    label: "面积",
+    dimension: { length: 2 },
+    units: [
+      ["m2", 1, "平方米", ["m²", "sqm", "square meter", "square meters", "平方米", "平米"]],
+      ["km2", 1e6, "平方千米", ["km²", "square kilometer", "平方千米", "平方公里"]],
+      ["cm2", 1e-4, "平方厘米", ["cm²", "square centimeter", "平方厘米"]],
+      ["mm2", 1e-6, "平方毫米", ["mm²", "square millimeter", "平方毫米"]],
+      ["in2", 0.00064516, "平方英寸", ["in²", "square inch", "平方英寸"]],
+      ["ft2", 0.09290304, "平方英尺", ["ft²", "sqft", "square foot", "square feet", "平方英尺"]],
+      ["yd2", 0.83612736, "平方码", ["yd²", "square yard", "平方码"]],
+      ["mi2", 2589988.110336, "平方英里", ["mi²", "square mile", "平方英里"]],
+      ["ac", 4046.8564224, "英亩", ["acre", "acres", "英亩"]],
+      ["ha", 10000, "公顷", ["hectare", "hectares", "公顷"]],
+      ["亩", 10000 / 15, "亩", ["mu", "市亩"]],
+    ],
+  },
+  volume: {
+    label: "体积",
+    dimension: { length: 3 },
+    units: [
+      ["m3", 1, "立方米", ["m³", "cubic meter", "立方米", "方"]],
+      ["l", 0.001, "升", ["L", "liter", "liters", "litre", "litres", "升", "公升"]],
+      ["ml", 1e-6, "毫升", ["mL", "milliliter", "milliliters", "millilitre", "毫升"]],
+      ["cm3", 1e-6, "立方厘米", ["cm³", "cc", "立方厘米"]],
+      ["tsp", 4.92892159375e-6, "茶匙", ["teaspoon", "teaspoons", "茶匙"]],
+      ["tbsp", 1.478676478125e-5, "汤匙", ["tablespoon", "tablespoons", "汤匙"]],
+      ["fl-oz", 2.95735295625e-5, "液量盎司", ["fl oz", "fluid ounce", "液量盎司"]],
+      ["cup", 2.365882365e-4, "杯", ["cups", "杯"]],
+      ["pt", 4.73176473e-4, "品脱", ["pint", "pints", "品脱"]],
+      ["qt", 9.46352946e-4, "夸脱", ["quart", "quarts", "夸脱"]],
+      ["gal", 3.785411784e-3, "加仑", ["gallon", "gallons", "加仑"]],
+    ],
+  },
+  data: {
+    label: "数据量",
+    dimension: { data: 1 },
+    units: [
+      ["B", 1, "字节", ["byte", "bytes", "字节"]],
+      ["bit", 0.125, "比特", ["bits", "比特", "位"]],
+      ["kB", 1e3, "千字节（SI）", ["KB", "kilobyte", "kilobytes"]],
+      ["MB", 1e6, "兆字节（SI）", ["megabyte", "megabytes"]],
+      ["GB", 1e9, "吉字节（SI）", ["gigabyte", "gigabytes"]],
+      ["TB", 1e12, "太字节（SI）", ["terabyte", "terabytes"]],
+      ["PB", 1e15, "拍字节（SI）", ["petabyte", "petabytes"]],
+      ["KiB", 2 ** 10, "千字节（IEC）", ["kibibyte", "kibibytes"]],
+      ["MiB", 2 ** 20, "兆字节（IEC）", ["mebibyte", "mebibytes"]],
+      ["GiB", 2 ** 30, "吉字节（IEC）", ["gibibyte", "gibibytes"]],
+      ["TiB", 2 ** 40, "太字节（IEC）", ["tebibyte", "tebibytes"]],
+      ["PiB", 2 ** 50, "拍字节（IEC）", ["pebibyte", "pebibytes"]],
+      ["kbit", 1e3 / 8, "千比特", ["Kbit", "kb", "Kb", "kilobit", "kilobits"]],
+      ["Mbit", 1e6 / 8, "兆比特", ["Mb", "megabit", "megabits"]],
+      ["Gbit", 1e9 / 8, "吉比特", ["Gb", "gigabit", "gigabits"]],
+      ["Tbit", 1e12 / 8, "太比特", ["Tb", "terabit", "terabits"]],
+    ],
+  },
+  speed: {
+    label: "速度",
+    dimension: { length: 1, time: -1 },
+    units: [
+      ["m/s", 1, "米每秒", ["mps", "米每秒", "米/秒"]],
+      ["km/h", 1 / 3.6, "千米每小时", ["kph", "kmh", "千米每小时", "公里每小时", "公里/小时"]],
+      ["mph", 0.44704, "英里每小时", ["英里每小时"]],
+      ["kn", 1852 / 3600, "节", ["kt", "knot", "knots", "节"]],
+      ["ft/s", 0.3048, "英尺每秒", ["fps"]],
+    ],
+  },
+  pressure: {
+    label: "压强",
+    dimension: { mass: 1, length: -1, time: -2 },
+    units: [
+      ["Pa", 1, "帕斯卡", ["pascal", "pascals", "帕", "帕斯卡"]],
+      ["hPa", 100, "百帕", ["hectopascal", "百帕"]],
+      ["kPa", 1000, "千帕", ["kilopascal", "千帕"]],
+      ["MPa", 1e6, "兆帕", ["megapascal", "兆帕"]],
+      ["bar", 1e5, "巴", ["bars", "巴"]],
+      ["mbar", 100, "毫巴", ["millibar", "毫巴"]],
+      ["atm", 101325, "标准大气压", ["atmosphere", "atmospheres", "大气压", "标准大气压"]],
+      ["psi", 6894.757293168361, "磅力每平方英寸", ["lbf/in2"]],
+      ["mmHg", 133.322387415, "毫米汞柱", ["毫米汞柱"]],
+      ["inHg", 3386.389, "英寸汞柱", ["英寸汞柱"]],
+      ["torr", 101325 / 760, "托", ["Torr", "托"]],
+    ],
+  },
+  energy: {
+    label: "能量",
+    dimension: { mass: 1, length: 2, time: -2 },
+    units: [
+      ["J", 1, "焦耳", ["joule", "joules", "焦", "焦耳"]],
+      ["kJ", 1000, "千焦", ["kilojoule", "kilojoules", "千焦"]],
+      ["MJ", 1e6, "兆焦", ["megajoule", "megajoules", "兆焦"]],
+      ["cal", 4.184, "卡路里", ["calorie", "calories", "卡", "卡路里"]],
+      ["kcal", 4184, "千卡", ["Cal", "kilocalorie", "kilocalories", "千卡", "大卡"]],
+      ["Wh", 3600, "瓦时", ["watt-hour", "watt hour", "瓦时"]],
+      ["kWh", 3.6e6, "千瓦时", ["kilowatt-hour", "kilowatt hour", "千瓦时", "度电"]],
+      ["MWh", 3.6e9, "兆瓦时", ["megawatt-hour", "兆瓦时"]],
+      ["eV", 1.602176634e-19, "电子伏特", ["electronvolt", "电子伏", "电子伏特"]],
+      ["BTU", 1055.05585262, "英热单位", ["Btu", "btu", "英热单位"]],
+    ],
+  },
+  power: {
+    label: "功率",
+    dimension: { mass: 1, length: 2, time: -3 },
+    units: [
+      ["W", 1, "瓦特", ["watt", "watts", "瓦", "瓦特"]],
+      ["mW", 0.001, "毫瓦", ["milliwatt", "milliwatts", "毫瓦"]],
+      ["kW", 1000, "千瓦", ["kilowatt", "kilowatts", "千瓦"]],
+      ["MW", 1e6, "兆瓦", ["megawatt", "megawatts", "兆瓦"]],
+      ["GW", 1e9, "吉瓦", ["gigawatt", "gigawatts", "吉瓦"]],
+      ["hp", 745.6998715822702, "英制马力", ["horsepower", "马力", "英制马力"]],
+      ["PS", 735.49875, "公制马力", ["metric horsepower", "公制马力"]],
+    ],
+  },
+  angle: {
+    label: "角度",
+    dimension: { angle: 1 },
+    units: [
+      ["rad", 1, "弧度", ["radian", "radians", "弧度"]],
+      ["deg", Math.PI / 180, "度", ["°", "degree", "degrees", "度"]],
+      ["grad", Math.PI / 200, "百分度", ["gon", "gradian", "gradians", "百分度"]],
+      ["arcmin", Math.PI / 10800, "角分", ["′", "arcminute", "arcminutes", "角分"]],
+      ["arcsec", Math.PI / 648000, "角秒", ["″", "arcsecond", "arcseconds", "角秒"]],
+      ["turn", 2 * Math.PI, "圈", ["rev", "revolution", "revolutions", "圈", "周角"]],
+    ],
+  },
+  frequency: {
+    label: "频率",
+    dimension: { time: -1 },
+    units: [
+      ["Hz", 1, "赫兹", ["hertz", "赫", "赫兹"]],
+      ["kHz", 1e3, "千赫", ["kilohertz", "千赫"]],
+      ["MHz", 1e6, "兆赫", ["megahertz", "兆赫"]],
+      ["GHz", 1e9, "吉赫", ["gigahertz", "吉赫"]],
+      ["rpm", 1 / 60, "转每分", ["r/min", "转每分", "转/分"]],
+    ],
+  },
+};
+
+const UNIT_CATEGORY_NAMES = Object.keys(UNIT_CATEGORIES);
+
+/**
+ * 构建单位索引：精确匹配表，以及去除冲突项后的大小写不敏感匹配表
+ */
+function buildUnitIndex() {
+  const exact = new Map<string, UnitDefinition>();
+  const folded = new Map<string, UnitDefinition | null>();
+
+  for (const [category, definition] of Object.entries(UNIT_CATEGORIES)) {
+    for (const [symbol, factor, name, aliases, offset = 0] of definition.units) {
+      const unit: UnitDefinition = { symbol, name, category, factor, offset, aliases };
+      for (const key of [symbol, ...aliases]) {
+        if (exact.has(key)) {
+          throw new Error(`单位名称重复: ${key}`);
+        }
+        exact.set(key, unit);
+
+        // 大小写折叠后指向不同单位的名称（如 MB 与 Mb）不参与模糊匹配
+        const lower = key.toLowerCase();
+        const existing = folded.get(lower);
+        folded.set(lower, existing === undefined || existing === unit ? unit : null);
+      }
+    }
+  }
+
+  return { exact, folded };
+}
+
+const UNIT_INDEX = buildUnitIndex();
+
+/**
+ * 大小写表示不同 SI 词头的字母，如 m（毫）与 M（兆）
+ */
+const CASE_SENSITIVE_PREFIXES = new Set(["m", "M", "p", "P", "y", "Y", "z", "Z", "r", "R", "q", "Q"]);
+
+/**
+ * 按符号、英文名或中文名查找单位，先精确匹配再忽略大小写
+ * 仅词头大小写不同的符号（如 Mm 与 mm、Mg 与 mg）表示另一个单位，不做模糊匹配
+ */
+export function lookupUnit(name: string): UnitDefinition | undefined {
+  const exact = UNIT_INDEX.exact.get(name);
+  if (exact) return exact;
+
+  const unit = UNIT_INDEX.folded.get(name.toLowerCase());
+  if (!unit) return undefined;
+  const changesPrefix = [unit.symbol, ...unit.aliases].some(key =>
+    key !== name &&
+    key.slice(1) === name.slice(1) &&
+    CASE_SENSITIVE_PREFIXES.has(key[0]) &&
+    CASE_SENSITIVE_PREFIXES.has(name[0]) &&
+    UNIT_INDEX.exact.has(key.slice(1))
+  );
+  return changesPrefix ? undefined : unit;
+}
+
+/**
+ * 量纲向量相乘（指数相加）
+ */
+function combineDimensions(a: Dimension, b: Dimension, exponent: number): Dimension {
+  const result: Dimension = { ...a };
+  for (const base of BASE_DIMENSIONS) {
+    const value = (result[base] ?? 0) + (b[base] ?? 0) * exponent;
+    if (value === 0) delete result[base];
+    else result[base] = value;
+  }
+  return result;
+}
+
+function sameDimension(a: Dimension, b: Dimension): boolean {
+  return BASE_DIMENSIONS.every(base => (a[base] ?? 0) === (b[base] ?? 0));
+}
+
+/**
+ * 描述量纲：匹配到类别时返回类别名，否则返回量纲表达式
+ */
+function describeDimension(dimension: Dimension): string {
+  const category = UNIT_CATEGORY_NAMES.find(name => sameDimension(UNIT_CATEGORIES[name].dimension, dimension));
+  if (category) return `${UNIT_CATEGORIES[category].label}(${category})`;
+  const parts = BASE_DIMENSIONS.filter(base => dimension[base]).map(base =>
+    dimension[base] === 1 ? base : `${base}^${dimension[base]}`
+  );
+  return parts.length ? parts.join("·") : "无量纲";
+}
+
+const SUPERSCRIPT_EXPONENTS: Record<string, number> = { "¹": 1, "²": 2, "³": 3 };
+
+/**
+ * 解析单位表达式
+ * 支持注册表中的单位，以及用 * · / 和 ^n 组合的复合单位，如 km/h、kg*m/s^2、BTU/h
+ */
+function resolveUnit(expression: string): ResolvedUnit {
+  const text = expression.trim();
+  const unit = lookupUnit(text);
+  if (unit) {
+    return { factor: unit.factor, offset: unit.offset, dimension: UNIT_CATEGORIES[unit.category].dimension };
+  }
+
+  const tokens = text.split(/\s*([*·/])\s*/);
+  let factor = 1;
+  let dimension: Dimension = {};
+
+  for (let i = 0; i < tokens.length; i += 2) {
+    const term = tokens[i];
+    const sign = i > 0 && tokens[i - 1] === "/" ? -1 : 1;
+    if (!term) {
+      throw new Error(`单位表达式不完整: ${expression}`);
+    }
+
+    let termUnit = lookupUnit(term);
+    let exponent = 1;
+    if (!termUnit) {
+      const match = term.match(/^(.+?)(?:\^(-?\d+)|([¹²³])|(\d+))$/);
+      if (match) {
+        termUnit = lookupUnit(match[1]);
+        exponent = match[2] !== undefined ? Number(match[2])
+          : match[3] !== undefined ? SUPERSCRIPT_EXPONENTS[match[3]]
+          : Number(match[4]);
+      }
+    }
+    if (!termUnit) {
+      throw new Error(`不支持的单位: ${term}，可使用 list-units 查看支持的单位`);
+    }
+    if (termUnit.offset !== 0 && (tokens.length > 1 || exponent !== 1)) {
+      throw new Error(`${termUnit.name}带有零点偏移，不能用于复合单位`);
+    }
+
+    factor *= termUnit.factor ** (exponent * sign);
+    dimension = combineDimensions(dimension, UNIT_CATEGORIES[termUnit.category].dimension, exponent * sign);
+    if (tokens.length === 1) {
+      return { factor, offset: termUnit.offset, dimension };
+    }
+  }
+
+  return { factor, offset: 0, dimension };
+}
+
+/**
+ * 换算数值
+ */
+function convertUnitValue(value: number, from: ResolvedUnit, to: ResolvedUnit): number {
+  return (value * from.factor + from.offset - to.offset) / to.factor;
+}
+
+/**
+ * 格式化换算结果
+ * @param precision 保留的小数位数
+ * @param significantFigures 有效数字位数
+ * 均未指定时保留 12 位有效数字以消除浮点误差
+ */
+function formatUnitValue(value: number, precision?: number, significantFigures?: number): string {
+  if (precision !== undefined) return value.toFixed(precision);
+  if (significantFigures !== undefined) return value.toPrecision(significantFigures);
+  return String(Number(value.toPrecision(12)));
+}
+
+// ==================== 参数校验 ====================
+
+/**
+ * 获取值对应的 JSON Schema 类型名
+ */
+function jsonTypeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value;
+}
+
+/**
+ * 拼接校验路径
+ */
+function joinPath(base: string, key: string | number): string {
+  if (typeof key === "number") return `${base}[${key}]`;
+  return base ? `${base}.${key}` : key;
+}
+
+/**
+ * validateSchema 实现的关键字，以及不影响校验结果的注解关键字
+ */
+const SUPPORTED_SCHEMA_KEYWORDS = new Set([
+  "type", "properties", "required", "additionalProperties", "items", "enum", "const", "default",
+  "anyOf", "oneOf", "allOf", "minimum", "maximum", "exclusiveMinimum", "exclusiveMaximum", "multipleOf",
+  "minLength", "maxLength", "pattern", "minItems", "maxItems", "uniqueItems",
+  "$schema", "$id", "$comment", "title", "description", "examples", "deprecated", "readOnly", "writeOnly",
+]);
+
+/**
+ * 找出 validateSchema 不支持的关键字，返回其 JSON Pointer
+ * validateSchema 会忽略未知关键字，外部传入的 schema 需先经过此检查，否则 $ref 等规则会被当作通过
+ */
+function findUnsupportedKeywords(schema: unknown, pointer = "#"): string[] {
+  if (typeof schema !== "object" || schema === null || Array.isArray(schema)) {
+    return [`${pointer}（模式应为对象）`];
+  }
+  const escape = (key: string) => key.replace(/~/g, "~0").replace(/\//g, "~1");
+  const found: string[] = [];
+  const node = schema as Record<string, unknown>;
+
+  for (const key of Object.keys(node)) {
+    if (!SUPPORTED_SCHEMA_KEYWORDS.has(key)) found.push(`${pointer}/${escape(key)}`);
+  }
+  if (typeof node.properties === "object" && node.properties !== null) {
+    for (const [key, subschema] of Object.entries(node.properties)) {
+      found.push(...findUnsupportedKeywords(subschema, `${pointer}/properties/${escape(key)}`));
+    }
+  }
+  if (node.additionalProperties !== undefined && typeof node.additionalProperties !== "boolean") {
+    found.push(...findUnsupportedKeywords(node.additionalProperties, `${pointer}/additionalProperties`));
+  }
+  if (node.items !== undefined) {
+    found.push(...findUnsupportedKeywords(node.items, `${pointer}/items`));
+  }
+  for (const keyword of ["anyOf", "oneOf", "allOf"]) {
+    const subschemas = node[keyword];
+    if (Array.isArray(subschemas)) {
+      subschemas.forEach((subschema, index) => {
+        found.push(...findUnsupportedKeywords(subschema, `${pointer}/${keyword}/${index}`));
+      });
+    }
+  }
+  return found;
+}
+
+/**
+ * 按 JSON Schema 校验值，并返回填充默认值后的结果
+ * @param schema 校验规则
+ * @param value 待校验的值
+ * @param path 当前路径，用于错误定位
+ * @param issues 收集到的问题列表
+ * @param rejectUnknown 未声明 additionalProperties 时是否拒绝未知属性
+ */
+export function validateSchema(
+  schema: JsonSchema,
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[],
+  rejectUnknown = false
+): unknown {
+  const at = path || "(根)";
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const actual = jsonTypeOf(value);
+    const matched = types.some(t => t === actual || (t === "number" && actual === "integer"));
+    if (!matched || (typeof value === "number" && !Number.isFinite(value))) {
+      issues.push({ path: at, message: `类型应为 ${types.join(" | ")}，实际为 ${actual}` });
+      return value;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some(v => JSON.stringify(v) === JSON.stringify(value))) {
+    issues.push({ path: at, message: `取值应为 ${schema.enum.map(v => JSON.stringify(v)).join(", ")} 之一` });
+  }
+
+  if (schema.const !== undefined && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+    issues.push({ path: at, message: `取值应为 ${JSON.stringify(schema.const)}` });
+  }
+
+  // 组合关键字只做判定，不参与默认值填充
+  const matches = (subschema: JsonSchema) => {
+    const subIssues: ValidationIssue[] = [];
+    validateSchema(subschema, value, path, subIssues, rejectUnknown);
+    return subIssues;
+  };
+  for (const subschema of schema.allOf ?? []) {
+    issues.push(...matches(subschema));
+  }
+  if (schema.anyOf && !schema.anyOf.some(subschema => matches(subschema).length === 0)) {
+    issues.push({ path: at, message: "不满足 anyOf 中的任何一个模式" });
+  }
+  if (schema.oneOf) {
+    const count = schema.oneOf.filter(subschema => matches(subschema).length === 0).length;
+    if (count !== 1) {
+      issues.push({ path: at, message: `应恰好满足 oneOf 中的一个模式，实际满足 ${count} 个` });
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ path: at, message: `不能小于 ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ path: at, message: `不能大于 ${schema.maximum}` });
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      issues.push({ path: at, message: `必须大于 ${schema.exclusiveMinimum}` });
+    }
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+      issues.push({ path: at, message: `必须小于 ${schema.exclusiveMaximum}` });
+    }
+    if (schema.multipleOf !== undefined && Math.abs(value / schema.multipleOf - Math.round(value / schema.multipleOf)) > 1e-9) {
+      issues.push({ path: at, message: `必须是 ${schema.multipleOf} 的倍数` });
+    }
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      issues.push({ path: at, message: `长度不能小于 ${schema.minLength}` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      issues.push({ path: at, message: `长度不能大于 ${schema.maxLength}` });
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern, "u").test(value)) {
+      issues.push({ path: at, message: `不匹配模式 ${schema.pattern}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({ path: at, message: `元素个数不能少于 ${schema.minItems}` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issues.push({ path: at, message: `元素个数不能多于 ${schema.maxItems}` });
+    }
+    if (schema.uniqueItems && new Set(value.map(item => JSON.stringify(item))).size !== value.length) {
+      issues.push({ path: at, message: "元素不能重复" });
+    }
+    if (schema.items) {
+      const items = schema.items;
+      return value.map((item, index) => validateSchema(items, item, joinPath(path, index), issues, rejectUnknown));
+    }
+    return value;
+  }
+
+  if (jsonTypeOf(value) === "object" && (schema.properties || schema.additionalProperties !== undefined)) {
+    const input = value as Record<string, unknown>;
+    const properties = schema.properties ?? {};
+    const result: Record<string, unknown> = {};
+
+    for (const [key, propSchema] of Object.entries(properties)) {
+      if (input[key] === undefined) {
+        if (propSchema.default !== undefined) {
+          result[key] = structuredClone(propSchema.default);
+        } else if (schema.required?.includes(key)) {
+          issues.push({ path: joinPath(path, key), message: "缺少必填参数" });
+        }
+        continue;
+      }
+      result[key] = validateSchema(propSchema, input[key], joinPath(path, key), issues, rejectUnknown);
+    }
+
+    for (const key of schema.required ?? []) {
+      if (!(key in properties) && input[key] === undefined) {
+        issues.push({ path: joinPath(path, key), message: "缺少必填参数" });
+      }
+    }
+
+    const additional = schema.additionalProperties ?? !rejectUnknown;
+    for (const [key, propValue] of Object.entries(input)) {
+      if (key in properties) continue;
+      if (additional === false) {
+        issues.push({ path: joinPath(path, key), message: "未知参数" });
+      } else if (additional === true) {
+        result[key] = propValue;
+      } else {
+        result[key] = validateSchema(additional, propValue, joinPath(path, key), issues, rejectUnknown);
+      }
+    }
+
+    return result;
+  }
+
+  return value;
+}
+
+/**
+ * 创建参数校验失败响应，列出所有不合法的字段
+ */
+function createValidationErrorResponse(issues: ValidationIssue[]): CallToolResult {
+  return createTextResponse(JSON.stringify({ error: "参数校验失败", issues }, null, 2), true);
+}
+
+// ==================== MCP 资源 ====================
+
+const RESOURCE_SCHEME = "tiny-ser";
+
+/**
+ * 资源不存在的错误码（MCP 规范约定）
+ */
+const RESOURCE_NOT_FOUND = -32002;
+
+/**
+ * 资源模板，客户端可据此构造 URI 直接读取
+ */
+const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: `${RESOURCE_SCHEME}://publications/{key}`,
+    name: "publication",
+    title: "已发布的内容",
+    description: "通过 deploy-to-tiny-server 发布的内容，key 为发布时返回的 key",
+  },
+  {
+    uriTemplate: `${RESOURCE_SCHEME}://uploads/{+path}`,
+    name: "upload",
+    title: "已上传的文件",
+    description: "通过 upload-to-github 或图片生成工具上传到 GitHub 仓库的文件，path 为仓库内路径",
+  },
+];
+
+/**
+ * 资源变更事件的监听者，各会话按客户端过滤后转发为 MCP 通知
+ */
+const resourceListeners: Set<(event: ResourceEvent) => void> = new Set();
+
+function emitResourceEvent(event: ResourceEvent): void {
+  for (const listener of resourceListeners) {
+    listener(event);
+  }
+}
+
+/**
+ * 监听资源变更事件
+ * @returns 取消监听的函数
+ */
+function onResourceEvent(listener: (event: ResourceEvent) => void): () => void {
+  resourceListeners.add(listener);
+  return () => {
+    resourceListeners.delete(listener);
+  };
+}
+
+function publicationUri(key: string): string {
+  return `${RESOURCE_SCHEME}://publications/${encodeURIComponent(key)}`;
+}
+
+function uploadUri(path: string): string {
+  return `${RESOURCE_SCHEME}://uploads/${encodeRepoPath(path)}`;
+}
+
+/**
+ * 解析资源 URI
+ */
+function parseResourceUri(uri: string): { type: "publications" | "uploads"; id: string } {
+  const prefix = `${RESOURCE_SCHEME}://`;
+  if (!uri.startsWith(prefix)) {
+    throw new McpError(RESOURCE_NOT_FOUND, `不支持的资源 URI: ${uri}`);
+  }
+  const rest = uri.slice(prefix.length);
+  const slash = rest.indexOf("/");
+  const type = rest.slice(0, slash);
+  const id = rest.slice(slash + 1).split("/").map(decodeURIComponent).join("/");
+  if (slash < 0 || !id || (type !== "publications" && type !== "uploads")) {
+    throw new McpError(RESOURCE_NOT_FOUND, `不支持的资源 URI: ${uri}`);
+  }
+  return { type, id };
+}
+
+/**
+ * 判断内容类型是否按文本返回
+ */
+function isTextMimeType(mimeType: string | undefined): boolean {
+  if (!mimeType) return false;
+  return mimeType.startsWith("text/") || /[/+](json|xml|javascript)$/.test(mimeType) || mimeType === "image/svg+xml";
+}
+
+/**
+ * 列出客户端可访问的资源：发布记录和上传记录
+ */
+async function listResources(clientId: string): Promise<Resource[]> {
+  const publications = (await listPublications(clientId)).map((record): Resource => ({
+    uri: publicationUri(record.key),
+    name: record.key,
+    title: record.title,
+    description: `${record.backend ?? "tiny-server"}: ${record.url}`,
+    mimeType: contentTypeForSuffix(record.suffix).split(";")[0],
+  }));
+  const uploads = (await listUploads(clientId)).map((record): Resource => ({
+    uri: uploadUri(record.path),
+    name: record.path,
+    description: record.cdnUrl,
+    mimeType: record.mimeType,
+    size: record.size,
+  }));
+  return [...publications, ...uploads];
+}
+
+/**
+ * 读取资源内容，文本以 text 返回，二进制文件以 base64 blob 返回
+ */
+async function readResource(clientId: string, uri: string): Promise<ReadResourceResult> {
+  const { type, id } = parseResourceUri(uri);
+
+  if (type === "publications") {
+    const record = await getPublication(id);
+    if (!record || record.clientId !== clientId) {
+      throw new McpError(RESOURCE_NOT_FOUND, `资源不存在: ${uri}`);
+    }
+    const text = await publisherOf(record).read(record);
+    return { contents: [{ uri, mimeType: contentTypeForSuffix(record.suffix).split(";")[0], text }] };
+  }
+
+  const record = await getUploadRecord(clientId, id);
+  if (!record) {
+    throw new McpError(RESOURCE_NOT_FOUND, `资源不存在: ${uri}`);
+  }
+  const bytes = await readGithubFile(clientId, record.path);
+  const mimeType = record.mimeType ?? sniffMimeType(bytes) ?? "application/octet-stream";
+  if (isTextMimeType(mimeType)) {
+    return { contents: [{ uri, mimeType, text: new TextDecoder().decode(bytes) }] };
+  }
+  return { contents: [{ uri, mimeType, blob: bytesToBase64(bytes) }] };
+}
+
+// ==================== 工具配置 ====================
+
+/**
+ * 判断工具是否在配置文件中启用
+ */
+function isToolEnabled(name: string): boolean {
+  const tools = serverConfig.tools;
+  if (tools?.disabled?.includes(name)) return false;
+  return !tools?.enabled || tools.enabled.includes(name);
+}
+
+/**
+ * 获取客户端使用的配置档，未配置时返回 undefined
+ */
+function resolveToolProfile(clientId: string): ToolProfile | undefined {
+  const name = serverConfig.clientProfiles?.[clientId] ?? serverConfig.defaultProfile;
+  return name === undefined ? undefined : serverConfig.profiles?.[name];
+}
+
+/**
+ * 判断客户端能否看到和调用工具：需已启用，且在客户端配置档的范围内
+ */
+function isToolAvailable(name: string, clientId: string): boolean {
+  if (!isToolEnabled(name)) return false;
+  const profile = resolveToolProfile(clientId);
+  if (!profile) return true;
+  if (profile.exclude?.includes(name)) return false;
+  return !profile.tools || profile.tools.includes(name);
+}
+
+/**
+ * 应用配置文件中的描述和参数默认值覆盖
+ */
+function applyToolOverrides(tool: Tool): Tool {
+  const override = serverConfig.tools?.overrides?.[tool.name];
+  if (!override) return tool;
+
+  const properties: Record<string, object> = { ...tool.inputSchema.properties };
+  const defaults = override.defaults ?? {};
+  for (const [name, value] of Object.entries(defaults)) {
+    properties[name] = { ...properties[name], default: value };
+  }
+  const required = tool.inputSchema.required?.filter((name: string) => !(name in defaults));
+
+  return {
+    ...tool,
+    description: override.description ?? tool.description,
+    inputSchema: { ...tool.inputSchema, properties, required },
+  };
+}
+
+/**
+ * 检查配置文件中的工具配置
+ * 引用不存在的配置档或默认值不合法时抛出错误；未知工具名只记录警告，因为插件可能稍后才加载
+ * @param handlers 启动时已注册的工具
+ */
+function validateToolConfig(config: ServerConfig, handlers: ToolHandler[]): void {
+  const profiles = config.profiles ?? {};
+  const errors: string[] = [];
+  for (const [clientId, profile] of Object.entries(config.clientProfiles ?? {})) {
+    if (!Object.hasOwn(profiles, profile)) errors.push(`clientProfiles.${clientId}: 配置档 ${profile} 不存在`);
+  }
+  if (config.defaultProfile !== undefined && !Object.hasOwn(profiles, config.defaultProfile)) {
+    errors.push(`defaultProfile: 配置档 ${config.defaultProfile} 不存在`);
+  }
+
+  const known = new Map(handlers.map(handler => [handler.tool.name, handler.tool]));
+  const unknown = new Set<string>();
+  const referenced = [
+    ...config.tools?.enabled ?? [],
+    ...config.tools?.disabled ?? [],
+    ...Object.values(profiles).flatMap(profile => [...profile.tools ?? [], ...profile.exclude ?? []]),
+  ];
+  for (const name of referenced) {
+    if (!known.has(name)) unknown.add(name);
+  }
+
+  for (const [name, override] of Object.entries(config.tools?.overrides ?? {})) {
+    const tool = known.get(name);
+    if (!tool) {
+      unknown.add(name);
+      continue;
+    }
+    const properties = (tool.inputSchema.properties ?? {}) as Record<string, JsonSchema>;
+    for (const [arg, value] of Object.entries(override.defaults ?? {})) {
+      const path = `tools.overrides.${name}.defaults.${arg}`;
+      if (!Object.hasOwn(properties, arg)) {
+        errors.push(`${path}: 工具没有此参数`);
+        continue;
+      }
+      const issues: ValidationIssue[] = [];
+      validateSchema(properties[arg], value, path, issues, true);
+      errors.push(...issues.map(issue => `${issue.path}: ${issue.message}`));
+    }
+  }
+
+  if (unknown.size > 0) {
+    logger.warn("配置文件引用了未注册的工具", { tools: [...unknown] });
+  }
+  if (errors.length > 0) {
+    throw new Error(`工具配置错误: ${errors.join("; ")}`);
+  }
+}
+
+// ==================== 调用限额 ====================
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 86_400_000;
+
+/**
+ * 进行中的调用数，以 计数对象 + 额度分组 为键
+ * 并发数只在当前进程内有效，重启后自然归零
+ */
+const activeCalls: Map<string, number> = new Map();
+
+/**
+ * 合并工具默认限制和配置文件中的覆盖值
+ * @returns 生效的限制，没有任何限制时返回 undefined
+ */
+function resolveToolLimits(toolHandler: ToolHandler, clientId: string): ToolLimits | undefined {
+  const name = toolHandler.tool.name;
+  const merged: ToolLimits = {
+    ...toolHandler.limits,
+    ...serverConfig.limits?.tools?.[name],
+    ...serverConfig.limits?.clients?.[clientId]?.[name],
+  };
+
+  const limits: ToolLimits = {};
+  for (const key of ["perMinute", "perDay", "concurrent"] as const) {
+    const value = merged[key];
+    if (typeof value === "number") limits[key] = value;
+  }
+  return Object.keys(limits).length > 0 ? limits : undefined;
+}
+
+/**
+ * 确定调用额度的计数对象和分组
+ * 未认证时客户端标识由调用方自报，改按请求来源计数；调用同一后端的工具共用一个分组
+ */
+export function quotaScope(toolHandler: ToolHandler, identity: ClientIdentity): { subject: string; group: string } {
+  return {
+    subject: identity.quotaSubject ?? identity.clientId,
+    group: toolHandler.quotaGroup ?? toolHandler.tool.name,
+  };
+}
+
+/**
+ * 计算当前的分钟和天窗口
+ */
+function quotaWindows(now: number) {
+  const minute = Math.floor(now / MINUTE_MS);
+  const day = Math.floor(now / DAY_MS);
+  return {
+    minute,
+    day,
+    minuteResetsAt: (minute + 1) * MINUTE_MS,
+    dayResetsAt: (day + 1) * DAY_MS,
+  };
+}
+
+function quotaKeys(subject: string, group: string, now: number): [Deno.KvKey, Deno.KvKey] {
+  const { minute, day } = quotaWindows(now);
+  return [
+    ["rate-limits", subject, group, "minute", minute],
+    ["rate-limits", subject, group, "day", day],
+  ];
+}
+
+/**
+ * 占用一次调用额度
+ * 先占用并发名额，再在 KV 中原子地递增分钟和天计数
+ * @returns 超出限制时返回详情，否则返回 null（调用结束后需调用 releaseToolQuota）
+ */
+export async function acquireToolQuota(subject: string, group: string, limits: ToolLimits): Promise<QuotaDenial | null> {
+  const activeKey = `${subject}\u0000${group}`;
+  const active = activeCalls.get(activeKey) ?? 0;
+  if (limits.concurrent != null && active >= limits.concurrent) {
+    return { limit: "concurrent", max: limits.concurrent, retryAfter: 1 };
+  }
+  activeCalls.set(activeKey, active + 1);
+
+  try {
+    const denial = await incrementQuotaCounters(subject, group, limits);
+    if (denial) releaseToolQuota(subject, group);
+    return denial;
+  } catch (error) {
+    releaseToolQuota(subject, group);
+    throw error;
+  }
+}
+
+/**
+ * 释放并发名额
+ */
+export function releaseToolQuota(subject: string, group: string): void {
+  const activeKey = `${subject}\u0000${group}`;
+  const active = (activeCalls.get(activeKey) ?? 1) - 1;
+  if (active > 0) activeCalls.set(activeKey, active);
+  else activeCalls.delete(activeKey);
+}
+
+async function incrementQuotaCounters(subject: string, group: string, limits: ToolLimits): Promise<QuotaDenial | null> {
+  if (limits.perMinute == null && limits.perDay == null) return null;
+
+  const kv = await getKv();
+  for (let attempt = 0; attempt < 10; attempt++) {
+    const now = Date.now();
+    const windows = quotaWindows(now);
+    const [minuteKey, dayKey] = quotaKeys(subject, group, now);
+    const [minute, day] = await kv.getMany<[number, number]>([minuteKey, dayKey]);
+    const minuteCount = minute.value ?? 0;
+    const dayCount = day.value ?? 0;
+
+    if (limits.perMinute != null && minuteCount >= limits.perMinute) {
+      return { limit: "perMinute", max: limits.perMinute, retryAfter: Math.ceil((windows.minuteResetsAt - now) / 1000) };
+    }
+    if (limits.perDay != null && dayCount >= limits.perDay) {
+      return { limit: "perDay", max: limits.perDay, retryAfter: Math.ceil((windows.dayResetsAt - now) / 1000) };
+    }
+
+    // 计数在窗口结束后自动过期
+    const op = kv.atomic().check(minute, day);
+    if (limits.perMinute != null) op.set(minuteKey, minuteCount + 1, { expireIn: 2 * MINUTE_MS });
+    if (limits.perDay != null) op.set(dayKey, dayCount + 1, { expireIn: 2 * DAY_MS });
+    if ((await op.commit()).ok) return null;
+  }
+  throw new Error("调用计数更新冲突，请稍后重试");
+}
+
+/**
+ * 查询计数对象在某个额度分组上的使用情况
+ */
+export async function getQuotaUsage(subject: string, group: string, limits: ToolLimits) {
+  const kv = await getKv();
+  const now = Date.now();
+  const windows = quotaWindows(now);
+  const [minute, day] = await kv.getMany<[number, number]>(quotaKeys(subject, group, now));
+  const describe = (used: number, limit: number | null | undefined, resetsAt: number) => limit == null ? null : {
+    used,
+    limit,
+    remaining: Math.max(limit - used, 0),
+    resetsAt: new Date(resetsAt).toISOString(),
+  };
+
+  return {
+    perMinute: describe(minute.value ?? 0, limits.perMinute, windows.minuteResetsAt),
+    perDay: describe(day.value ?? 0, limits.perDay, windows.dayResetsAt),
+    concurrent: limits.concurrent == null ? null : {
+      active: activeCalls.get(`${subject}\u0000${group}`) ?? 0,
+      limit: limits.concurrent,
+    },
+  };
+}
+
+/**
+ * 创建超出调用限制的响应
+ */
+function createQuotaExceededResponse(tool: string, denial: QuotaDenial): CallToolResult {
+  const labels: Record<keyof ToolLimits, string> = {
+    perMinute: "每分钟调用次数",
+    perDay: "每日调用次数",
+    concurrent: "并发调用数",
+  };
+  return createTextResponse(JSON.stringify({
+    error: `超出调用限制：${tool} 的${labels[denial.limit]}上限为 ${denial.max}，请在 ${denial.retryAfter} 秒后重试`,
+    tool,
+    ...denial,
+  }, null, 2), true);
+}
+
+// ==================== 监控指标 ====================
+
+/**
+ * 工具调用耗时直方图的桶上界（秒）
+ */
+const DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+/**
+ * 工具调用失败的类型
+ * - validation: 参数校验失败
+ * - rate_limit: 超出调用限制
+ * - tool: 工具返回了错误结果
+ * - exception: 工具抛出异常
+ */
+type ToolErrorType = "validation" | "rate_limit" | "tool" | "exception";
+
+const processStartTime = Date.now();
+
+const toolCallCounts: Map<string, number> = new Map();
+const toolErrorCounts: Map<string, Map<ToolErrorType, number>> = new Map();
+const toolDurations: Map<string, { buckets: number[]; sum: number; count: number }> = new Map();
+
+/**
+ * 记录一次工具调用
+ * @param durationSeconds 调用耗时（秒）
+ * @param errorType 失败类型，成功时为空
+ */
+function recordToolCall(tool: string, durationSeconds: number, errorType?: ToolErrorType): void {
+  toolCallCounts.set(tool, (toolCallCounts.get(tool) ?? 0) + 1);
+
+  if (errorType) {
+    const errors = toolErrorCounts.get(tool) ?? new Map<ToolErrorType, number>();
+    errors.set(errorType, (errors.get(errorType) ?? 0) + 1);
+    toolErrorCounts.set(tool, errors);
+  }
+
+  const histogram = toolDurations.get(tool) ?? { buckets: DURATION_BUCKETS.map(() => 0), sum: 0, count: 0 };
+  DURATION_BUCKETS.forEach((bound, index) => {
+    if (durationSeconds <= bound) histogram.buckets[index]++;
+  });
+  histogram.sum += durationSeconds;
+  histogram.count++;
+  toolDurations.set(tool, histogram);
+}
+
+/**
+ * 转义 Prometheus 标签值
+ */
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Record<string, string>): string {
+  const parts = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return parts.length ? `{${parts.join(",")}}` : "";
+}
+
+/**
+ * 以 Prometheus 文本格式输出全部指标
+ */
+function renderMetrics(): string {
+  const lines: string[] = [];
+  const metric = (name: string, type: string, help: string) => {
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+  };
+
+  metric("mcp_tool_calls_total", "counter", "工具调用次数");
+  for (const [tool, count] of toolCallCounts) {
+    lines.push(`mcp_tool_calls_total${formatLabels({ tool })} ${count}`);
+  }
+
+  metric("mcp_tool_errors_total", "counter", "工具调用失败次数");
+  for (const [tool, errors] of toolErrorCounts) {
+    for (const [type, count] of errors) {
+      lines.push(`mcp_tool_errors_total${formatLabels({ tool, type })} ${count}`);
+    }
+  }
+
+  metric("mcp_tool_call_duration_seconds", "histogram", "工具调用耗时（秒）");
+  for (const [tool, histogram] of toolDurations) {
+    DURATION_BUCKETS.forEach((bound, index) => {
+      lines.push(`mcp_tool_call_duration_seconds_bucket${formatLabels({ tool, le: String(bound) })} ${histogram.buckets[index]}`);
+    });
+    lines.push(`mcp_tool_call_duration_seconds_bucket${formatLabels({ tool, le: "+Inf" })} ${histogram.count}`);
+    lines.push(`mcp_tool_call_duration_seconds_sum${formatLabels({ tool })} ${histogram.sum}`);
+    lines.push(`mcp_tool_call_duration_seconds_count${formatLabels({ tool })} ${histogram.count}`);
+  }
+
+  metric("mcp_active_sessions", "gauge", "当前活跃的会话数");
+  const activeSessions = { sse: 0, http: 0 };
+  for (const session of sessions.values()) {
+    activeSessions[session.transport instanceof SSEServerTransport ? "sse" : "http"]++;
+  }
+  for (const [transport, count] of Object.entries(activeSessions)) {
+    lines.push(`mcp_active_sessions${formatLabels({ transport })} ${count}`);
+  }
+
+  metric("process_start_time_seconds", "gauge", "进程启动时间（Unix 时间戳，秒）");
+  lines.push(`process_start_time_seconds ${processStartTime / 1000}`);
+
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * 检查 KV 是否可读写，用于就绪检查
+ */
+async function checkKvHealth(timeoutMs = 2000): Promise<void> {
+  const check = (async () => {
+    const kv = await getKv();
+    await kv.set(["health"], Date.now());
+    await kv.get(["health"]);
+  })();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`KV 检查超时（${timeoutMs}ms）`)), timeoutMs);
+  });
+  try {
+    await Promise.race([check, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// ==================== 审计日志 ====================
+
+const AUDIT_DEFAULT_RETENTION_DAYS = 90;
+/** 审计工具单次返回的最大记录数 */
+const AUDIT_MAX_QUERY = 500;
+/** GET /audit 单次导出的最大记录数 */
+const AUDIT_MAX_EXPORT = 10_000;
+const AUDIT_OUTCOMES: AuditRecord["outcome"][] = ["success", "validation", "rate_limit", "tool", "exception"];
+/** 参数名匹配时整体打码 */
+const SENSITIVE_ARG_PATTERN = /password|passwd|secret|token|api[-_]?key|authorization|credential/i;
+const AUDIT_MAX_STRING = 200;
+const AUDIT_MAX_ITEMS = 20;
+const AUDIT_MAX_DEPTH = 4;
+
+function auditRetentionMs(): number {
+  return (serverConfig.audit?.retentionDays ?? AUDIT_DEFAULT_RETENTION_DAYS) * DAY_MS;
+}
+
+function truncateAuditText(text: string): string {
+  return text.length > AUDIT_MAX_STRING ? `${text.slice(0, AUDIT_MAX_STRING)}…（共 ${text.length} 字符）` : text;
+}
+
+/**
+ * 脱敏并截断参数，避免把密钥或大段正文写入审计日志
+ * @param redactKeys 工具声明的需要打码的参数名
+ */
+function redactAuditValue(value: unknown, redactKeys: Set<string>, depth = 0): unknown {
+  if (typeof value === "string") return truncateAuditText(value);
+  if (value === null || typeof value !== "object") return value;
+  if (depth >= AUDIT_MAX_DEPTH) return "[…]";
+
+  if (Array.isArray(value)) {
+    const items = value.slice(0, AUDIT_MAX_ITEMS).map(item => redactAuditValue(item, redactKeys, depth + 1));
+    if (value.length > AUDIT_MAX_ITEMS) items.push(`…（共 ${value.length} 项）`);
+    return items;
+  }
+
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+    key,
+    redactKeys.has(key) || SENSITIVE_ARG_PATTERN.test(key)
+      ? "[REDACTED]"
+      : redactAuditValue(item, redactKeys, depth + 1),
+  ]));
+}
+
+/**
+ * 生成工具结果的摘要，二进制内容只记录类型
+ */
+function summarizeToolResult(result: CallToolResult): string {
+  const parts = result.content.map((item: ContentBlock) => {
+    if (item.type === "text") return item.text;
+    if (item.type === "image" || item.type === "audio") return `[${item.type} ${item.mimeType}]`;
+    return `[${item.type}]`;
+  });
+  return truncateAuditText(parts.join("\n"));
+}
+
+/**
+ * 写入一条审计记录，超出保留期后由 KV 自动删除
+ */
+async function writeAuditRecord(record: AuditRecord): Promise<void> {
+  const kv = await getKv();
+  await kv.set(["audit", Date.parse(record.time), record.id], record, { expireIn: auditRetentionMs() });
+}
+
+/**
+ * 按条件查询审计记录，按时间倒序返回
+ */
+async function queryAuditLog(query: AuditQuery): Promise<AuditRecord[]> {
+  const kv = await getKv();
+  const from = Math.max(query.from ?? 0, Date.now() - auditRetentionMs());
+  const to = query.to ?? Date.now();
+  const records: AuditRecord[] = [];
+  if (from > to) return records;
+
+  const entries = kv.list<AuditRecord>({ start: ["audit", from], end: ["audit", to + 1] }, { reverse: true });
+  for await (const { value: record } of entries) {
+    if (query.tool && record.tool !== query.tool) continue;
+    if (query.clientId && record.clientId !== query.clientId) continue;
+    if (query.outcome && record.outcome !== query.outcome) continue;
+    records.push(record);
+    if (records.length >= query.limit) break;
+  }
+  return records;
+}
+
+/**
+ * 删除超出保留期或超出数量上限的审计记录
+ * @returns 删除的记录数
+ */
+async function purgeAuditLog(): Promise<number> {
+  const kv = await getKv();
+  let deleted = 0;
+
+  // expireIn 只保证最终删除，这里主动清理已过期的记录
+  for await (const entry of kv.list({ start: ["audit", 0], end: ["audit", Date.now() - auditRetentionMs()] })) {
+    await kv.delete(entry.key);
+    deleted++;
+  }
+
+  const maxRecords = serverConfig.audit?.maxRecords;
+  if (maxRecords !== undefined) {
+    let kept = 0;
+    for await (const entry of kv.list({ prefix: ["audit"] }, { reverse: true })) {
+      if (++kept <= maxRecords) continue;
+      await kv.delete(entry.key);
+      deleted++;
+    }
+  }
+  return deleted;
+}
+
+/**
+ * 启动审计记录的定时清理
+ */
+function startAuditSweeper(intervalMs = 60 * MINUTE_MS): void {
+  const timer = setInterval(() => {
+    purgeAuditLog()
+      .then(deleted => deleted > 0 && logger.info("已清理审计记录", { deleted }))
+      .catch(error => logger.error("清理审计记录失败", { error }));
+  }, intervalMs);
+  Deno.unrefTimer(timer);
+}
+
+/**
+ * 解析查询时间，支持 ISO 8601 字符串和毫秒时间戳
+ */
+function parseAuditTime(value: string): number {
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new Error(`无法解析时间: ${value}`);
+  }
+  return time;
+}
+
+/**
+ * 非管理员只能查询自己的审计记录
+ */
+function canReadAuditOf(identity: ClientIdentity, clientId?: string): boolean {
+  return identity.admin || clientId === undefined || clientId === identity.clientId;
+}
+
+/**
+ * 格式化审计记录
+ * @param format json 为缩进的数组，jsonl 为每行一条记录
+ */
+function formatAuditRecords(records: AuditRecord[], format: "json" | "jsonl"): string {
+  if (format === "json") return JSON.stringify(records, null, 2);
+  return records.map(record => `${JSON.stringify(record)}\n`).join("");
+}
+
+// ==================== 工具注册系统 ====================
+
+/**
+ * 工具注册表
+ * 管理所有可用工具及其处理逻辑
+ */
+export class ToolRegistry {
+  private tools: Map<string, ToolHandler> = new Map();
+  private listeners: Set<() => void> = new Set();
+
+  /**
+   * 注册单个工具
+   */
+  register(toolHandler: ToolHandler): void {
+    this.registerAll([toolHandler]);
+  }
+
+  /**
+   * 批量注册工具，只触发一次变更通知
+   */
+  registerAll(toolHandlers: ToolHandler[]): void {
+    for (const handler of toolHandlers) {
+      this.tools.set(handler.tool.name, handler);
+    }
+    if (toolHandlers.length > 0) this.notifyChange();
+  }
+
+  /**
+   * 注销工具，已在执行中的调用不受影响
+   * @returns 实际注销的工具数
+   */
+  unregister(...names: string[]): number {
+    const removed = names.filter(name => this.tools.delete(name)).length;
+    if (removed > 0) this.notifyChange();
+    return removed;
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  /**
+   * 获取可用工具的定义，已应用配置文件中的覆盖
+   * @param clientId 指定时按客户端的配置档过滤，否则只过滤未启用的工具
+   */
+  getTools(clientId?: string): Tool[] {
+    return Array.from(this.tools.values())
+      .filter(th => clientId === undefined ? isToolEnabled(th.tool.name) : isToolAvailable(th.tool.name, clientId))
+      .map(th => applyToolOverrides(th.tool));
+  }
+
+  /**
+   * 获取所有已注册的工具处理器
+   */
+  getHandlers(): ToolHandler[] {
+    return Array.from(this.tools.values());
+  }
+
+  /**
+   * 监听工具列表变更
+   * @returns 取消监听的函数
+   */
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notifyChange(): void {
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+
+  /**
+   * 处理工具调用请求
+   * 统一负责参数校验、调用限制、日志和监控指标
+   */
+  async handleToolCall(
+    name: string,
+    args: Record<string, unknown>,
+    origin: ToolCallOrigin
+  ): Promise<CallToolResult> {
+    const { sendNotification, clientLogLevel, ...caller } = origin;
+    const requestId = crypto.randomUUID();
+    const serverLogger = logger.child({
+      requestId,
+      sessionId: caller.sessionId,
+      clientId: caller.clientId,
+      keyId: caller.identity.keyId,
+      tool: name,
+    });
+    const context: ToolContext = {
+      ...caller,
+      requestId,
+      logger: clientLogLevel ? forwardLogsToClient(serverLogger, clientLogLevel, sendNotification, name) : serverLogger,
+      reportProgress: async (progress, total, message) => {
+        if (caller.progressToken === undefined) return;
+        try {
+          await sendNotification({
+            method: "notifications/progress",
+            params: { progressToken: caller.progressToken, progress, total, message },
+          });
+        } catch (error) {
+          serverLogger.warn("发送进度通知失败", { error });
+        }
+      },
+    };
+
+    const toolHandler = this.tools.get(name);
+    if (!toolHandler) {
+      // 未知工具不计入指标，避免标签基数失控
+      context.logger.warn("调用了未知工具");
+      return createTextResponse(`未知工具: ${name}`, true);
+    }
+    // 未启用或不在配置档内的工具按未知工具处理，不向客户端透露其存在
+    if (!isToolAvailable(name, context.clientId)) {
+      context.logger.warn("调用了不可用的工具");
+      return createTextResponse(`未知工具: ${name}`, true);
+    }
+
+    const startTime = Date.now();
+    const startedAt = performance.now();
+    const finish = async (result: CallToolResult, errorType?: ToolErrorType, error?: unknown): Promise<CallToolResult> => {
+      const durationMs = Math.round((performance.now() - startedAt) * 10) / 10;
+      recordToolCall(name, durationMs / 1000, errorType);
+      const fields = { durationMs, outcome: errorType ?? "success", error };
+      if (errorType === "exception") {
+        context.logger.error("工具调用失败", fields);
+      } else {
+        context.logger.info("工具调用完成", fields);
+      }
+
+      // 审计日志写入失败不影响调用结果
+      const policy = toolHandler.audit ?? {};
+      await writeAuditRecord({
+        id: requestId,
+        time: new Date(startTime).toISOString(),
+        tool: name,
+        clientId: context.clientId,
+        keyId: context.identity.keyId,
+        sessionId: context.sessionId,
+        arguments: redactAuditValue(args, new Set(policy.redactArgs)),
+        outcome: errorType ?? "success",
+        durationMs,
+        result: policy.omitResult ? undefined : summarizeToolResult(result),
+        error: error === undefined ? undefined : error instanceof Error ? error.message : String(error),
+      }).catch(auditError => context.logger.error("写入审计日志失败", { error: auditError }));
+      return result;
+    };
+    context.logger.debug("开始调用工具");
+
+    // 按 inputSchema 校验参数并填充默认值
+    const issues: ValidationIssue[] = [];
+    const inputSchema = applyToolOverrides(toolHandler.tool).inputSchema as JsonSchema;
+    const validArgs = validateSchema(inputSchema, args, "", issues, true);
+    if (issues.length > 0) return finish(createValidationErrorResponse(issues), "validation");
+
+    // 校验通过后才占用额度，参数错误的调用不计数
+    const limits = resolveToolLimits(toolHandler, context.clientId);
+    const { subject, group } = quotaScope(toolHandler, context.identity);
+    if (limits) {
+      try {
+        const denial = await acquireToolQuota(subject, group, limits);
+        if (denial) return finish(createQuotaExceededResponse(name, denial), "rate_limit");
+      } catch (error: unknown) {
+        const message = `工具执行错误: ${error instanceof Error ? error.message : String(error)}`;
+        return finish(createTextResponse(message, true), "exception", error);
+      }
+    }
+
+    try {
+      const result = await toolHandler.handler(validArgs as Record<string, unknown>, context);
+      return finish(result, result.isError ? "tool" : undefined);
+    } catch (error: unknown) {
+      const message = `工具执行错误: ${error instanceof Error ? error.message : String(error)}`;
+      return finish(createTextResponse(message, true), "exception", error);
+    } finally {
+      if (limits) releaseToolQuota(subject, group);
+    }
+  }
+}
+
+// ==================== 提示词注册系统 ====================
+
+/**
+ * 提示词注册表
+ * 管理可复用的提示词模板，同名模板后注册的覆盖先注册的
+ */
+class PromptRegistry {
+  private prompts: Map<string, PromptDefinition> = new Map();
+
+  /**
+   * 注册单个提示词
+   */
+  register(definition: PromptDefinition): void {
+    this.prompts.set(definition.name, definition);
+  }
+
+  /**
+   * 批量注册提示词
+   */
+  registerAll(definitions: PromptDefinition[]): void {
+    for (const definition of definitions) {
+      this.register(definition);
+    }
+  }
+
+  /**
+   * 获取所有已注册提示词的定义
+   */
+  getPrompts(): Prompt[] {
+    return Array.from(this.prompts.values()).map(definition => ({
+      name: definition.name,
+      title: definition.title,
+      description: definition.description,
+      arguments: definition.arguments.map(arg => ({
+        name: arg.name,
+        description: describePromptArgument(arg),
+        required: arg.required ?? false,
+      })),
+    }));
+  }
+
+  /**
+   * 校验参数并渲染提示词
+   */
+  getPrompt(name: string, args: Record<string, string>): GetPromptResult {
+    const definition = this.prompts.get(name);
+    if (!definition) {
+      throw new McpError(ErrorCode.InvalidParams, `未知提示词: ${name}`);
+    }
+
+    const values = resolvePromptArguments(definition, args);
+    return {
+      description: definition.description,
+      messages: [{
+        role: "user",
+        content: { type: "text", text: renderPromptTemplate(definition.template, values) },
+      }],
+    };
+  }
+}
+
+// ==================== 工具实现 ====================
+
+/**
+ * 可用工具集合
+ */
+const TOOLS: ToolHandler[] = [
+  {
+    tool: {
+      name: "deploy-to-tiny-server",
+      description: "部署到 Tiny Server 或其他已配置的发布后端",
+      inputSchema: {
+        type: "object",
+        properties: {
+          content: {
+            type: "string",
+            description: "要发布的内容"
+          },
+          suffix: {
+            type: "string",
+            description: "URL 后缀，例如 '.md' '.gist' '.html' 或空",
+            pattern: "^[A-Za-z0-9._-]*$"
+          },
+          backend: {
+            type: "string",
+            description: "可选的发布后端: 'tiny-server', 'gist'(GitHub Gist), 'github'(GitHub 仓库), 'local'(本服务器)。默认使用 publish-backend 配置",
+            enum: Object.keys(PUBLISHERS)
+          },
+          key: {
+            type: "string",
+            description: "可选的自定义 key（字母、数字、_ 或 -），已被占用时报错。默认随机生成",
+            pattern: PUBLICATION_KEY_PATTERN
+          },
+          title: {
+            type: "string",
+            description: "可选的标题，便于在发布列表中识别"
+          },
+          expiresIn: {
+            type: "integer",
+            description: "可选的有效期（秒），到期后服务器自动删除",
+            minimum: 60
+          }
+        },
+        required: ["content", "suffix"],
+      },
+    },
+    // 调用外部服务，默认限流以免耗尽配额或滥用共享服务
+    limits: { perMinute: 10, perDay: 200, concurrent: 2 },
+    quotaGroup: "publishing",
+    handler: async (args: Record<string, unknown>, context: ToolContext): Promise<CallToolResult> => {
+      const content = args.content as string;
+      const suffix = args.suffix as string;
+
+      try {
+        const publisher = await getPublisher(context.clientId, args.backend as string | undefined);
+        await context.reportProgress(0, 3, "正在分配 key");
+        const key = await allocatePublicationKey(
+          publisher,
+          context.clientId,
+          suffix,
+          args.key as string | undefined,
+          context.signal
+        );
+        const title = args.title as string | undefined;
+        await context.reportProgress(1, 3, `正在发布到 ${publisher.name}`);
+        const { url, remoteId } = await publisher.publish({ key, content, suffix, title }, context.clientId, context.signal);
+
+        await context.reportProgress(2, 3, "正在保存发布记录");
+
+        const now = Date.now();
+        await savePublication({
+          key,
+          title,
+          suffix,
+          url,
+          backend: publisher.name,
+          remoteId,
+          clientId: context.clientId,
+          createdAt: now,
+          updatedAt: now,
+          expiresAt: computeExpiresAt(args.expiresIn),
+        });
+
+        context.logger.info("内容已发布", { key, url, backend: publisher.name });
+        await context.reportProgress(3, 3, "完成");
+        return createTextResponse(url);
+      } catch (error) {
+        return createTextResponse(`发布失败: ${error instanceof Error ? error.message : String(error)}`, true);
+      }
+    }
+  },
+  {
+    tool: {
+      name: "update-publication",
+      description: "更新已发布的内容，URL 保持不变",
+      inputSchema: {
+        type: "object",
+        properties: {
+          key: {
+            type: "string",
+            description: "发布时返回的 key"
+          },
+          content: {
+            type: "string",
+            description: "新的内容"
+          },
+          title: {
+            type: "string",
+            description: "可选的新标题"
+          },
+          expiresIn: {
+            type: "integer",
+            description: "可选的新有效期（秒），从现在开始计算",
+            minimum: 60
+          }
+        },
+        required: ["key", "content"],
+      },
+    },
+    // 与 deploy-to-tiny-server 调用相同的发布后端
+    limits: { perMinute: 10, perDay: 200, concurrent: 2 },
+    quotaGroup: "publishing",
+    handler: async (args: Record<string, unknown>, context: ToolContext): Promise<CallToolResult> => {
+      const key = args.key as string;
+      const content = args.content as string;
+
+      try {
+        const record = await getOwnedPublication(context.clientId, key);
+        const title = (args.title as string | undefined) ?? record.title;
+        await context.reportProgress(0, 1, `正在更新 ${record.backend} 上的内容`);
+        const { url, remoteId } = await publisherOf(record).publish(
+          { key, content, suffix: record.suffix, title, remoteId: record.remoteId },
+          context.clientId,
+          context.signal
+        );
+
+        await savePublication({
+          ...record,
+          title,
+          url,
+          remoteId: remoteId ?? record.remoteId,
+          updatedAt: Date.now(),
+          expiresAt: computeExpiresAt(args.expiresIn) ?? record.expiresAt,
+        });
+
+        await context.reportProgress(1, 1, "完成");
+        return createTextResponse(url);
+      } catch (error) {
+        return createTextResponse(`更新失败: ${error instanceof Error ? error.message : String(error)}`, true);
+      }
+    }
+  },
+  {
+    tool: {
+      name: "delete-publication",
+      description: "删除已发布的内容",
+      inputSchema: {
+        type: "object",
+        properties: {
+          key: {
+            type: "string",
+            description: "发布时返回的 key"
+          }
+        },
+        required: ["key"],
+      },
+    },
+    handler: async (args: Record<string, unknown>, context: ToolContext): Promise<CallToolResult> => {
+      const key = args.key as string;
+
+      try {
+        const record = await getOwnedPublication(context.clientId, key);
+        await removePublication(record, context.signal);
+        return createTextResponse(`已删除: ${record.url}`);
+      } catch (error) {
+        return createTextResponse(`删除失败: ${error instanceof Error ? error.message : String(error)}`, true);
+      }
+    }
+  },
+  {
+    tool: {
+      name: "list-publications",
+      description: "列出当前客户端发布的全部内容",
+      inputSchema: {
+        type: "object",
+        properties: {},
+      },
+    },
+    handler: async (_args: Record<string, unknown>, context: ToolContext): Promise<CallToolResult> => {
+      try {
+        const records = await listPublications(context.clientId);
+        const items = records.map(record => ({
+          key: record.key,
+          title: record.title ?? null,
+          url: record.url,
+          backend: record.backend ?? "tiny-server",
+          createdAt: new Date(record.createdAt).toISOString(),
+          updatedAt: new Date(record.updatedAt).toISOString(),
+          expiresAt: record.expiresAt ? new Date(record.expiresAt).toISOString() : null,
+        }));
+        return createTextResponse(JSON.stringify(items, null, 2));
+      } catch (error) {
+        return createTextResponse(`读取发布列表失败: ${error instanceof Error ? error.message : String(error)}`, true);
+      }
+    }
+  },
+  // 日期时间格式化
+  {
+    tool: {
+      name: "formatDateTime",
+      description: "按指定时区格式化日期时间",
+      inputSchema: {
+        type: "object",
+        properties: {
+          format: {
+            type: "string",
+            description: `格式字符串，例如 'YYYY-MM-DD HH:mm:ss'。${DATE_FORMAT_DESCRIPTION}`
+          },
+          timestamp: {
+            type: "number",
+            description: "可选的时间戳（毫秒）。默认为当前时间"
+          },
+          timeZone: {
+            type: "string",
+            description: "可选的 IANA 时区，例如 'Asia/Shanghai'、'Europe/Berlin'。默认为服务器时区"
+          },
+          locale: {
+            type: "string",
+            description: "月份和星期名称的语言: 'zh'(中文), 'en'(英文)",
+            enum: ["zh", "en"],
+            default: "zh"
+          },
+        },
+        required: ["format"],
+      },
+    },
+    handler: async (args: Record<string, unknown>): Promise<CallToolResult> => {
+      const format = args.format as string;
+      const timestamp = args.timestamp as number ?? Date.now();
+      const timeZone = args.timeZone as string ?? LOCAL_TIME_ZONE;
+
+      try {
+        if (isNaN(new Date(timestamp).getTime())) {
+          return createTextResponse(`无效的时间戳: ${timestamp}`, true);
+        }
+
+        return createTextResponse(formatDate(timestamp, format, timeZone, args.locale as DateLocale));
+      } catch (error) {
+        return createTextResponse(`日期格式化错误: ${error instanceof Error ? error.message : String(error)}`, true);
+      }
+    }
+  },
+
+  // 日期时间解析
+  {
+    tool: {
+      name: "parseDateTime",
+      description: "按指定格式和时区解析日期字符串，返回时间戳和 ISO 8601 表示",
+      inputSchema: {
+        type: "object",
+        properties: {
+          input: { type: "string", description: "要解析的日期字符串" },
+          format: {
+            type: "string",
+            description: `可选的格式字符串，例如 'YYYY年M月D日 HH:mm'。省略时支持 ISO 8601 和 'YYYY-MM-DD HH:mm:ss'。${DATE_FORMAT_DESCRIPTION}`
+          },
+          timeZone: {
+            type: "string",
+            description: "输入不含时区偏移时使用的 IANA 时区。默认为服务器时区"
+          },
+          locale: {
+            type: "string",
+            description: "月份和星期名称的语言: 'zh'(中文), 'en'(英文)",
+            enum: ["zh", "en"],
+            default: "zh"
+          },
+        },
+        required: ["input"],
+      },
+    },
+    handler: async (args: Record<string, unknown>): Promise<CallToolResult> => {
+      const input = args.input as string;
+      const timeZone = args.timeZone as string ?? LOCAL_TIME_ZONE;
+
+      try {
+        const timestamp = args.format
+          ? parseDateWithFormat(input, args.format as string, timeZone, args.locale as DateLocale)
+          : parseDateInput(input, timeZone);
+
+        return createTextResponse(JSON.stringify({
+          timestamp,
+          iso: new Date(timestamp).toISOString(),
+          timeZone,
+          local: formatDate(timestamp, "YYYY-MM-DD HH:mm:ss.SSS Z", timeZone, "en"),
+        }, null, 2));
+      } catch (error) {
+        return createTextResponse(`日期解析错误: ${error instanceof Error ? error.message : String(error)}`, true);
+      }
+    }
+  },
+
+  // 日期差值
+  {
+    tool: {
+      name: "dateDiff",
+      description: "计算两个时间之间的差值",
+      inputSchema: {
+        type: "object",
+        properties: {
+          from: { type: ["string", "number"], description: "起始时间（毫秒时间戳或日期字符串）" },
+          to: { type: ["string", "number"], description: "结束时间（毫秒时间戳或日期字符串）。默认为当前时间" },
+          unit: {
+            type: "string",
+            description: "可选的结果单位，返回带小数的精确值（months/years 为整月/整年）",
+            enum: ["milliseconds", "seconds", "minutes", "hours", "days", "weeks", "months", "years"]
+          },
+          timeZone: {
+            type: "string",
+            description: "解析不带时区的日期以及按日历计算月、年时使用的 IANA 时区。默认为服务器时区"
+          },
+        },
+        required: ["from"],
+      },
+    },
+    handler: async (args: Record<string, unknown>): Promise<CallToolResult> => {
+      const timeZone = args.timeZone as string ?? LOCAL_TIME_ZONE;
+
+      try {
+        const from = parseDateInput(args.from, timeZone);
+        const to = parseDateInput(args.to, timeZone);
+        const diff = to - from;
+        const months = monthsBetween(from, to, timeZone);
+
+        const total: Record<string, number> = {};
+        for (const [unit, size] of Object.entries(TIME_UNITS_MS)) {
+          total[unit] = Math.trunc(diff / size);
+        }
+        total.months = months;
+        total.years = Math.trunc(months / 12);
+
+        let abs = Math.abs(diff);
+        const breakdown: Record<string, number> = {};
+        for (const unit of ["days", "hours", "minutes", "seconds", "milliseconds"]) {
+          breakdown[unit] = Math.floor(abs / TIME_UNITS_MS[unit]);
+          abs -= breakdown[unit] * TIME_UNITS_MS[unit];
+        }
+
+        const unit = args.unit as string | undefined;
+        const result: Record<string, unknown> = {
+          from: new Date(from).toISOString(),
+          to: new Date(to).toISOString(),
+          sign: Math.sign(diff),
+          total,
+          breakdown,
+        };
+        if (unit) {
+          result.unit = unit;
+          result.value = unit in TIME_UNITS_MS ? diff / TIME_UNITS_MS[unit] : total[unit];
+        }
+
+        return createTextResponse(JSON.stringify(result, null, 2));
+      } catch (error) {
+        return createTextResponse(`日期差值计算错误: ${error instanceof Error ? error.message : String(error)}`, true);
+      }
+    }
+  },
+
+  // 日期加减
+  {
+    tool: {
+      name: "dateAdd",
+      description: "给时间加上或减去一段时长",
+      inputSchema: {
+        type: "object",
+        properties: {
+          date: { type: ["string", "number"], description: "起始时间（毫秒时间戳或日期字符串）。默认为当前时间" },
+          duration: {
+            type: "string",
+            description: "ISO 8601 时长，例如 'P1D'(1天), 'PT2H30M'(2小时30分), '-P1M'(减1个月)"
+          },
+          timeZone: {
+            type: "string",
+            description: "按日历加减年、月、日时使用的 IANA 时区。默认为服务器时区"
+          },
+          format: {
+            type: "string",
+            description: `可选的输出格式，默认 'YYYY-MM-DD HH:mm:ss Z'。${DATE_FORMAT_DESCRIPTION}`,
+            default: "YYYY-MM-DD HH:mm:ss Z"
+          },
+        },
+        required: ["duration"],
+      },
+    },
+    handler: async (args: Record<string, unknown>): Promise<CallToolResult> => {
+      const timeZone = args.timeZone as string ?? LOCAL_TIME_ZONE;
+
+      try {
+        const start = parseDateInput(args.date, timeZone);
+        const result = addDuration(start, parseDuration(args.duration as string), timeZone);
+
+        return createTextResponse(JSON.stringify({
+          timestamp: result,
+          iso: new Date(result).toISOString(),
+          formatted: formatDate(result, args.format as string, timeZone, "zh"),
+        }, null, 2));
+      } catch (error) {
+        return createTextResponse(`日期加减错误: ${error instanceof Error ? error.message : String(error)}`, true);
+      }
+    }
+  },
+
+  // 时区转换
+  {
+    tool: {
+      name: "convertTimeZone",
+      description: "在时区之间转换时间",
+      inputSchema: {
+        type: "object",
+        properties: {
+          date: { type: ["string", "number"], description: "要转换的时间（毫秒时间戳或日期字符串）。默认为当前时间" },
+          fromTimeZone: {
+            type: "string",
+            description: "输入不含时区偏移时使用的 IANA 时区。默认为服务器时区"
+          },
+          toTimeZone: { type: "string", description: "目标 IANA 时区，例如 'America/Los_Angeles'" },
+          format: {
+            type: "string",
+            description: `可选的输出格式，默认 'YYYY-MM-DD HH:mm:ss Z'。${DATE_FORMAT_DESCRIPTION}`,
+            default: "YYYY-MM-DD HH:mm:ss Z"
+          },
+        },
+        required: ["toTimeZone"],
+      },
+    },
+    handler: async (args: Record<string, unknown>): Promise<CallToolResult> => {
+      const fromTimeZone = args.fromTimeZone as string ?? LOCAL_TIME_ZONE;
+      const toTimeZone = args.toTimeZone as string;
+      const format = args.format as string;
+
+      try {
+        const timestamp = parseDateInput(args.date, fromTimeZone);
+
+        return createTextResponse(JSON.stringify({
+          timestamp,
+          iso: new Date(timestamp).toISOString(),
+          from: { timeZone: fromTimeZone, formatted: formatDate(timestamp, format, fromTimeZone, "zh") },
+          to: { timeZone: toTimeZone, formatted: formatDate(timestamp, format, toTimeZone, "zh") },
+        }, null, 2));
+      } catch (error) {
+        return createTextResponse(`时区转换错误: ${error instanceof Error ? error.message : String(error)}`, true);
+      }
+    }
+  },
+
+  // 相对时间
+  {
+    tool: {
+      name: "relativeTime",
+      description: "生成相对时间描述，例如 '3天前'、'in 2 hours'",
+      inputSchema: {
+        type: "object",
+        properties: {
+          date: { type: ["string", "number"], description: "目标时间（毫秒时间戳或日期字符串）" },
+          base: { type: ["string", "number"], description: "参照时间。默认为当前时间" },
+          timeZone: {
+            type: "string",
+            description: "解析不带时区的日期时使用的 IANA 时区。默认为服务器时区"
+          },
+          locale: {
+            type: "string",
+            description: "输出语言: 'zh'(中文), 'en'(英文)",
+            enum: ["zh", "en"],
+            default: "zh"
+          },
+        },
+        required: ["date"],
+      },
+    },
+    handler: async (args: Record<string, unknown>): Promise<CallToolResult> => {
+      const timeZone = args.timeZone as string ?? LOCAL_TIME_ZONE;
+
+      try {
+        const date = parseDateInput(args.date, timeZone);
+        const base = parseDateInput(args.base, timeZone);
+        return createTextResponse(formatRelativeTime(date, base, args.locale as DateLocale));
+      } catch (error) {
+        return createTextResponse(`相对时间计算错误: ${error instanceof Error ? error.message : String(error)}`, true);
+      }
+    }
+  },
+
+  // JSON 格式化与验证
+  {
+    tool: {
+      name: "formatJSON",
+      description: "格式化、压缩和验证 JSON 字符串，语法错误时给出行列号",
+      inputSchema: {
+        type: "object",
+        properties: {
+          json: { type: "string", description: "要格式化的 JSON 字符串" },
+          indent: { type: "integer", description: "缩进空格数，默认为 2", minimum: 0, maximum: 10, default: 2 },
+          mode: {
+            type: "string",
+            description: "输出模式: 'pretty'(格式化), 'minify'(压缩为一行)",
+            enum: ["pretty", "minify"],
+            default: "pretty"
+          },
+          sortKeys: { type: "boolean", description: "是否递归按键名排序", default: false },
+        },
+        required: ["json"],
+      },
+    },
+    handler: async (args: Record<string, unknown>): Promise<CallToolResult> => {
+      const jsonStr = args.json as string;
+      const indent = args.mode === "minify" ? 0 : args.indent as number;
+
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(jsonStr);
+      } catch (error) {
+        return createTextResponse(`JSON 解析错误: ${describeJsonError(jsonStr, error)}`, true);
+      }
+
+      const output = args.sortKeys ? sortJsonKeys(parsed) : parsed;
+      return createTextResponse(JSON.stringify(output, null, indent));
+    }
+  },
+
+  // JSON 查询
+  {
+    tool: {
+      name: "queryJSON",
+      description: "使用 JSONPath 查询 JSON，返回匹配的路径和值",
+      inputSchema: {
+        type: "object",
+        properties: {
+          json: { type: "string", description: "JSON 字符串" },
+          path: {
+            type: "string",
+            description: "JSONPath 表达式，例如 '$.items[*].name'、'$..id'、'$.items[?(@.price > 10)]'、'$.list[0:3]'"
+          },
+          valuesOnly: { type: "boolean", description: "是否只返回值，不返回路径", default: false },
+        },
+        required: ["json", "path"],
+      },
+    },
+    handler: async (args: Record<string, unknown>): Promise<CallToolResult> => {
+      try {
+        const document = parseDataFormat(args.json as string, "json");
+        const matches = queryJsonPath(document, args.path as string);
+        const result = args.valuesOnly ? matches.map(match => match.value) : matches;
+        return createTextResponse(JSON.stringify(result, null, 2));
+      } catch (error) {
+        return createTextResponse(`JSON 查询错误: ${error instanceof Error ? error.message : String(error)}`, true);
+      }
+    }
+  },
+
+  // JSON 结构差异
+  {
+    tool: {
+      name: "diffJSON",
+      description: "比较两个 JSON 文档的结构差异，以 JSON Patch（RFC 6902）格式返回",
+      inputSchema: {
+        type: "object",
+        properties: {
+          before: { type: "string", description: "原始 JSON 字符串" },
+          after: { type: "string", description: "新的 JSON 字符串" },
+        },
+        required: ["before", "after"],
+      },
+    },
+    handler: async (args: Record<string, unknown>): Promise<CallToolResult> => {
+      try {
+        const before = parseDataFormat(args.before as string, "json");
+        const after = parseDataFormat(args.after as string, "json");
+        const operations = diffJson(before, after);
+        return createTextResponse(JSON.stringify({ equal: operations.length === 0, operations }, null, 2));
+      } catch (error) {
+        return createTextResponse(`JSON 比较错误: ${error instanceof Error ? error.message : String(error)}`, true);
+      }
+    }
+  },
+
+  // JSON Schema 校验
+  {
+    tool: {
+      name: "validateJSON",
+      description: "使用 JSON Schema 校验 JSON，返回每个路径上的错误",
+      inputSchema: {
+        type: "object",
+        properties: {
+          json: { type: "string", description: "要校验的 JSON 字符串" },
+          schema: {
+            type: "string",
+            description: "JSON Schema 字符串。支持 type、properties、required、additionalProperties、items、enum、const、" +
+              "anyOf、oneOf、allOf、minimum、maximum、exclusiveMinimum、exclusiveMaximum、multipleOf、minLength、maxLength、" +
+              "pattern、minItems、maxItems、uniqueItems，包含其他关键字（如 $ref、format）时报错"
+          },
+        },
+        required: ["json", "schema"],
+      },
+    },
+    handler: async (args: Record<string, unknown>): Promise<CallToolResult> => {
+      try {
+        const document = parseDataFormat(args.json as string, "json");
+        const schema = parseDataFormat(args.schema as string, "json") as JsonSchema;
+        const unsupported = findUnsupportedKeywords(schema);
+        if (unsupported.length > 0) {
+          return createTextResponse(`JSON 校验错误: schema 包含不支持的关键字: ${unsupported.join(", ")}`, true);
+        }
+        const issues: ValidationIssue[] = [];
+        validateSchema(schema, document, "", issues);
+        return createTextResponse(JSON.stringify({ valid: issues.length === 0, issues }, null, 2), issues.length > 0);
+      } catch (error) {
+        return createTextResponse(`JSON 校验错误: ${error instanceof Error ? error.message : String(error)}`, true);
+      }
+    }
+  },
+
+  // 数据格式转换
+  {
+    tool: {
+      name: "convertJSON",
+      description: "在 JSON、JSON5、YAML 和 TOML 之间转换",
+      inputSchema: {
+        type: "object",
+        properties: {
+          input: { type: "string", description: "要转换的文本" },
+          from: { type: "string", description: "输入格式", enum: DATA_FORMATS, default: "json" },
+          to: { type: "string", description: "输出格式", enum: DATA_FORMATS },
+          indent: { type: "integer", description: "缩进空格数，默认为 2", minimum: 0, maximum: 10, default: 2 },
+        },
+        required: ["input", "to"],
+      },
+    },
+    handler: async (args: Record<string, unknown>): Promise<CallToolResult> => {
+      try {
+        const value = parseDataFormat(args.input as string, args.from as string);
+        return createTextResponse(stringifyDataFormat(value, args.to as string, args.indent as number));
+      } catch (error) {
+        return createTextResponse(`格式转换错误: ${error instanceof Error ? error.message : String(error)}`, true);
+      }
+    }
+  },
+
+  // 文本统计
+  {
+    tool: {
+      name: "textStats",
+      description: "分析文本并返回统计信息，支持中日韩文字和 emoji",
+      inputSchema: {
+        type: "object",
+        properties: {
+          text: { type: "string", description: "要分析的文本" },
+          locale: {
+            type: "string",
+            description: "分词和分句使用的语言，例如 'zh'、'en'、'ja'。默认为 'zh'，可正确处理中英混排",
+            default: "zh"
+          },
+        },
+        required: ["text"],
+      },
+    },
+    handler: async (args: Record<string, unknown>): Promise<CallToolResult> => {
+      const text = args.text as string;
+
+      try {
+        const stats = analyzeText(text, args.locale as string);
+
+        // 获取前10个最常见字符
+        const topChars = stats.topCharacters
+          .map(({ character: char, count }) => `"${char === ' ' ? '空格' : char === '\n' ? '换行' : char === '\t' ? '制表符' : char}": ${count}`)
+          .join(', ');
+
+        const result = {
+          ...stats,
+          字符数: stats.characters,
+          单词数: stats.words,
+          行数: stats.lines,
+          常见字符: topChars
+        };
+
+        return createTextResponse(JSON.stringify(result, null, 2));
+      } catch (error) {
+        return createTextResponse(`文本分析错误: ${error instanceof Error ? error.message : String(error)}`, true);
+      }
+    }
+  },
+
+  // 进制转换
+  {
+    tool: {
+      name: "convertBase",
+      description: "在不同进制之间转换任意长度的数字，支持负数、小数和补码视图",
+      inputSchema: {
+        type: "object",
+        properties: {
+          number: {
+            type: "string",
+            description: "要转换的数字（字符串形式），可带正负号、小数点、_ 分隔符以及 0x/0b/0o 前缀"
+          },
+          fromBase: {
+            type: "integer",
+            description: "原始进制（2-36）。省略时根据 0x/0b/0o 前缀推断，默认为 10",
+            minimum: 2,
+            maximum: 36
+          },
+          toBase: { type: "integer", description: "目标进制（2-36）", minimum: 2, maximum: 36 },
+          precision: {
+            type: "integer",
+            description: "小数部分最多输出的位数，默认为 20",
+            minimum: 0,
+            maximum: 1000,
+            default: 20
+          },
+          prefix: {
+            type: "boolean",
+            description: "目标进制为 2/8/16 时是否输出 0b/0o/0x 前缀",
+            default: false
+          },
+          bitWidth: {
+            type: "integer",
+            description: "可选的位宽，返回该位宽下的补码、无符号和有符号解释",
+            enum: BIT_WIDTHS
+          },
+        },
+        required: ["number", "toBase"],
+      },
+    },
+    handler: async (args: Record<string, unknown>): Promise<CallToolResult> => {
+      const numStr = args.number as string;
+      const toBase = args.toBase as number;
+
+      try {
+        const parsed = parseNumberInBase(numStr, args.fromBase as number | undefined);
+        const { text, truncated } = formatNumberInBase(parsed, toBase, args.precision as number);
+
+        const prefix = Object.entries(BASE_PREFIXES).find(([, base]) => base === toBase)?.[0];
+        const result = args.prefix && prefix
+          ? text.replace(/^(-?)/, `$1${prefix}`)
+          : text;
+
+        if (args.bitWidth === undefined && !truncated) {
+          return createTextResponse(result);
+        }
+
+        return createTextResponse(JSON.stringify({
+          result,
+          fromBase: parsed.base,
+          toBase,
+          truncated,
+          ...(args.bitWidth !== undefined ? { twosComplement: twosComplementView(parsed, args.bitWidth as number) } : {}),
+        }, null, 2));
+      } catch (error) {
         return createTextResponse(`进制转换错误: ${error instanceof Error ? error.message : String(error)}`, true);
       }
     }
-  },
+  },
+
+  // 随机数生成
+  {
+    tool: {
+      name: "generateRandom",
+      description: "生成随机数、随机字符串、各类 ID、密码，或从列表中随机选择/洗牌。默认使用 crypto.getRandomValues，指定 seed 时生成可复现的序列",
+      inputSchema: {
+        type: "object",
+        properties: {
+          type: {
+            type: "string",
+            description: "生成类型: 'number'(整数), 'float'(浮点数), 'string'(字符串), 'uuid'(UUID v4), 'uuidv7'(UUID v7), 'ulid'(ULID), 'nanoid'(NanoID), 'password'(密码), 'choice'(从列表中选择), 'shuffle'(打乱列表)",
+            enum: ["number", "float", "string", "uuid", "uuidv7", "ulid", "nanoid", "password", "choice", "shuffle"]
+          },
+          count: {
+            type: "integer",
+            description: "生成数量，大于 1 时以 JSON 数组返回",
+            minimum: 1,
+            maximum: MAX_RANDOM_COUNT,
+            default: 1
+          },
+          unique: {
+            type: "boolean",
+            description: "是否保证批量结果互不重复（uuid/uuidv7/ulid/nanoid 始终去重）",
+            default: false
+          },
+          seed: {
+            type: ["string", "integer"],
+            description: "随机种子，相同种子产生相同序列，仅用于测试，不具备密码学安全性。uuidv7/ulid 的时间戳部分不受种子影响"
+          },
+          min: {
+            type: "number",
+            description: "当type为number/float时的最小值（包含）",
+            default: 0
+          },
+          max: {
+            type: "number",
+            description: "当type为number时的最大值（包含），type为float时的最大值（不包含）",
+            default: 100
+          },
+          precision: {
+            type: "integer",
+            description: "当type为float时保留的小数位数",
+            minimum: 0,
+            maximum: 15
+          },
+          length: {
+            type: "integer",
+            description: "当type为string/nanoid/password时的长度，默认分别为 10、21、16",
+            minimum: 1,
+            maximum: 4096
+          },
+          charset: {
+            type: "string",
+            description: "当type为string时的字符集: 'alphanumeric'(字母数字), 'alpha'(字母), 'numeric'(数字), 'hex'(十六进制), 'custom'(自定义)",
+            enum: ["alphanumeric", "alpha", "numeric", "hex", "custom"],
+            default: "alphanumeric"
+          },
+          customCharset: {
+            type: "string",
+            description: "当charset为custom时的自定义字符集；type为nanoid时也可用于替换默认字母表"
+          },
+          classes: {
+            type: "array",
+            description: "当type为password时必须包含的字符类别",
+            items: { type: "string", enum: ["lower", "upper", "digit", "symbol"] },
+            uniqueItems: true,
+            default: ["lower", "upper", "digit", "symbol"]
+          },
+          excludeAmbiguous: {
+            type: "boolean",
+            description: "当type为password时是否排除 I l 1 O 0 o 等易混淆字符",
+            default: true
+          },
+          symbols: {
+            type: "string",
+            description: "当type为password时使用的符号集，默认 !@#$%^&*()-_=+[]{};:,.<>?/~"
+          },
+          items: {
+            type: "array",
+            description: "当type为choice/shuffle时的候选列表",
+            minItems: 1
+          },
+          weights: {
+            type: "array",
+            description: "当type为choice时各候选项的权重，长度需与 items 一致",
+            items: { type: "number", minimum: 0 }
+          },
+        },
+        required: ["type"],
+      },
+    },
+    // 结果可能是密码
+    audit: { omitResult: true },
+    handler: async (args: Record<string, unknown>): Promise<CallToolResult> => {
+      const type = args.type as string;
+      const count = args.count as number;
+      const unique = args.unique as boolean;
+
+      try {
+        const source = createRandomSource(args.seed === undefined ? undefined : String(args.seed));
+        let values: unknown[];
+
+        if (type === "number") {
+          const min = args.min as number;
+          const max = args.max as number;
+
+          if (!Number.isInteger(min) || !Number.isInteger(max)) {
+            return createTextResponse("type为number时最小值和最大值必须是整数，浮点数请使用 float", true);
+          }
+          if (min > max) {
+            return createTextResponse("最小值不能大于最大值", true);
+          }
+          const range = max - min + 1;
+          if (!Number.isSafeInteger(range)) {
+            return createTextResponse("取值范围过大，超出安全整数范围", true);
+          }
+          if (unique && count > range) {
+            return createTextResponse(`取值范围内只有 ${range} 个整数，无法生成 ${count} 个不重复的值`, true);
+          }
+
+          values = generateBatch(count, unique, () => min + source.int(range));
+        }
+        else if (type === "float") {
+          const min = args.min as number;
+          const max = args.max as number;
+          const precision = args.precision as number | undefined;
+
+          if (min >= max) {
+            return createTextResponse("最小值必须小于最大值", true);
+          }
+
+          values = generateBatch(count, unique, () => {
+            const value = min + source.float() * (max - min);
+            return precision === undefined ? value : Number(value.toFixed(precision));
+          });
+        }
+        else if (type === "string") {
+          const length = (args.length as number | undefined) ?? 10;
+          const charset = args.charset as string;
+
+          const chars = charset === "custom" ? (args.customCharset as string || "") : CHARSETS[charset];
+          if (!chars) {
+            return createTextResponse(charset === "custom" ? "自定义字符集不能为空" : `未知字符集类型: ${charset}`, true);
+          }
+
+          values = generateBatch(count, unique, () => randomString(source, chars, length));
+        }
+        else if (type === "uuid") {
+          values = generateBatch(count, true, () => generateUuidV4(source));
+        }
+        else if (type === "uuidv7") {
+          values = generateBatch(count, true, () => generateUuidV7(source));
+        }
+        else if (type === "ulid") {
+          values = generateBatch(count, true, createUlidGenerator(source));
+        }
+        else if (type === "nanoid") {
+          const length = (args.length as number | undefined) ?? 21;
+          const alphabet = (args.customCharset as string | undefined) || NANOID_ALPHABET;
+          values = generateBatch(count, true, () => randomString(source, alphabet, length));
+        }
+        else if (type === "password") {
+          const length = (args.length as number | undefined) ?? 16;
+          const classes = args.classes as PasswordClass[];
+          const excludeAmbiguous = args.excludeAmbiguous as boolean;
+          const symbols = args.symbols as string | undefined;
+          values = generateBatch(count, unique, () => generatePassword(source, length, classes, excludeAmbiguous, symbols));
+        }
+        else if (type === "choice") {
+          const items = args.items as unknown[] | undefined;
+          const weights = args.weights as number[] | undefined;
+
+          if (!items) {
+            return createTextResponse("type为choice时必须提供 items", true);
+          }
+          if (weights && weights.length !== items.length) {
+            return createTextResponse(`weights 长度 (${weights.length}) 与 items 长度 (${items.length}) 不一致`, true);
+          }
+
+          if (unique) {
+            // 不放回抽样：每次抽中后从候选中移除
+            const pool = items.map((item, index) => ({ item, weight: weights?.[index] ?? 1 }))
+              .filter(entry => entry.weight > 0);
+            if (count > pool.length) {
+              return createTextResponse(`可选项只有 ${pool.length} 个，无法选出 ${count} 个不重复的值`, true);
+            }
+            values = [];
+            for (let i = 0; i < count; i++) {
+              const index = weights ? weightedIndex(source, pool.map(entry => entry.weight)) : source.int(pool.length);
+              values.push(pool.splice(index, 1)[0].item);
+            }
+          } else {
+            values = generateBatch(count, false, () =>
+              items[weights ? weightedIndex(source, weights) : source.int(items.length)]
+            );
+          }
+        }
+        else if (type === "shuffle") {
+          const items = args.items as unknown[] | undefined;
+          if (!items) {
+            return createTextResponse("type为shuffle时必须提供 items", true);
+          }
+          values = generateBatch(count, unique, () => shuffle(source, items));
+        }
+        else {
+          return createTextResponse(`未支持的随机类型: ${type}`, true);
+        }
+
+        if (count === 1) {
+          const [value] = values;
+          return createTextResponse(typeof value === "string" ? value : JSON.stringify(value));
+        }
+        return createTextResponse(JSON.stringify(values, null, 2));
+      } catch (error) {
+        return createTextResponse(`随机生成错误: ${error instanceof Error ? error.message : String(error)}`, true);
+      }
+    }
+  },
+
+  // 单位转换
+  {
+    tool: {
+      name: "convertUnit",
+      description: "在不同单位之间转换数值。单位可使用符号、英文名或中文名（如 m、meter、米、斤、亩、尺），也支持 km/h、kg*m/s^2、BTU/h 等复合单位；可用 list-units 查看支持的单位",
+      inputSchema: {
+        type: "object",
+        properties: {
+          value: { type: "number", description: "要转换的数值" },
+          category: {
+            type: "string",
+            description: "转换类别，可省略；指定时会校验两个单位都属于该类别",
+            enum: UNIT_CATEGORY_NAMES
+          },
+          fromUnit: { type: "string", description: "原始单位" },
+          toUnit: { type: "string", description: "目标单位" },
+          precision: {
+            type: "integer",
+            description: "保留的小数位数",
+            minimum: 0,
+            maximum: 20
+          },
+          significantFigures: {
+            type: "integer",
+            description: "保留的有效数字位数，不能与 precision 同时使用",
+            minimum: 1,
+            maximum: 21
+          },
+        },
+        required: ["value", "fromUnit", "toUnit"],
+      },
+    },
+    handler: async (args: Record<string, unknown>): Promise<CallToolResult> => {
+      const value = args.value as number;
+      const category = args.category as string | undefined;
+      const fromUnit = args.fromUnit as string;
+      const toUnit = args.toUnit as string;
+      const precision = args.precision as number | undefined;
+      const significantFigures = args.significantFigures as number | undefined;
+
+      try {
+        if (precision !== undefined && significantFigures !== undefined) {
+          return createTextResponse("precision 与 significantFigures 不能同时指定", true);
+        }
+
+        const from = resolveUnit(fromUnit);
+        const to = resolveUnit(toUnit);
+
+        if (category) {
+          const expected = UNIT_CATEGORIES[category].dimension;
+          for (const [name, unit] of [[fromUnit, from], [toUnit, to]] as const) {
+            if (!sameDimension(unit.dimension, expected)) {
+              return createTextResponse(`单位 ${name} 不属于类别 ${category}，而是 ${describeDimension(unit.dimension)}`, true);
+            }
+          }
+        }
+        if (!sameDimension(from.dimension, to.dimension)) {
+          return createTextResponse(
+            `无法在 ${fromUnit}（${describeDimension(from.dimension)}）和 ${toUnit}（${describeDimension(to.dimension)}）之间转换`,
+            true
+          );
+        }
+
+        const result = convertUnitValue(value, from, to);
+        return createTextResponse(formatUnitValue(result, precision, significantFigures));
+      } catch (error) {
+        return createTextResponse(`单位转换错误: ${error instanceof Error ? error.message : String(error)}`, true);
+      }
+    }
+  },
+
+  // 单位列表
+  {
+    tool: {
+      name: "list-units",
+      description: "列出 convertUnit 支持的单位类别、单位符号及别名",
+      inputSchema: {
+        type: "object",
+        properties: {
+          category: {
+            type: "string",
+            description: "只列出指定类别，省略时列出全部",
+            enum: UNIT_CATEGORY_NAMES
+          },
+        },
+      },
+    },
+    handler: (args: Record<string, unknown>): Promise<CallToolResult> => {
+      const category = args.category as string | undefined;
+      const names = category ? [category] : UNIT_CATEGORY_NAMES;
+
+      const categories = names.map(name => {
+        const definition = UNIT_CATEGORIES[name];
+        return {
+          category: name,
+          label: definition.label,
+          baseUnit: definition.units[0][0],
+          units: definition.units.map(([symbol, , unitName, aliases]) => ({ symbol, name: unitName, aliases })),
+        };
+      });
+
+      return Promise.resolve(createTextResponse(JSON.stringify({
+        categories,
+        compound: "可用 * · / 和 ^n 组合单位，如 km/h、m/s^2、kg*m2、BTU/h",
+      }, null, 2)));
+    }
+  },
+  {
+    tool: {
+      name: "generate-image",
+      description: "生成图片。配置了 GitHub 上传目标时返回图片链接，否则直接返回图片",
+      inputSchema: {
+        type: "object",
+        properties: {
+          prompt: {
+            type: "string",
+            description: "图片生成提示词"
+          },
+          provider: {
+            type: "string",
+            description: "可选的图片生成服务: 'gemini', 'openai'(OpenAI 兼容接口), 'stub'(本地占位图)。默认使用 image-provider 配置",
+            enum: Object.keys(IMAGE_PROVIDERS)
+          },
+          size: {
+            type: "string",
+            description: "可选的图片尺寸，例如 '1024x1024'",
+            pattern: "^\\d+x\\d+$"
+          },
+          count: {
+            type: "integer",
+            description: "生成数量，默认为 1",
+            minimum: 1,
+            maximum: 4,
+            default: 1
+          },
+          upload: {
+            type: "boolean",
+            description: "是否上传到 GitHub。为 false 时总是直接返回图片",
+            default: true
+          }
+        },
+        required: ["prompt"],
+      },
+    },
+    limits: { perMinute: 5, perDay: 100, concurrent: 2 },
+    quotaGroup: "image-generation",
+    handler: (args: Record<string, unknown>, context: ToolContext): Promise<CallToolResult> => {
+      return generateImages(args, context);
+    }
+  },
+  {
+    tool: {
+      name: "gemini-image-gen",
+      description: "使用 Gemini 生成图片（模型由 gemini-image-model 配置）",
+      inputSchema: {
+        type: "object",
+        properties: {
+          prompt: {
+            type: "string",
+            description: "图片生成提示词"
+          }
+        },
+        required: ["prompt"],
+      },
+    },
+    limits: { perMinute: 5, perDay: 100, concurrent: 2 },
+    // 与 generate-image 调用相同的图片生成服务
+    quotaGroup: "image-generation",
+    handler: (args: Record<string, unknown>, context: ToolContext): Promise<CallToolResult> => {
+      return generateImages(args, context, "gemini");
+    }
+  },
+  {
+    tool: {
+      name: "upload-to-github",
+      description: "上传 base64 编码的文件到 GitHub 仓库，返回原始地址和 CDN 地址",
+      inputSchema: {
+        type: "object",
+        properties: {
+          content: {
+            type: "string",
+            description: "base64 编码的文件内容",
+            minLength: 1
+          },
+          filename: {
+            type: "string",
+            description: "可选的文件名，没有扩展名时按内容类型补全。默认随机生成"
+          },
+          mimeType: {
+            type: "string",
+            description: "可选的内容类型，例如 'image/png'。默认根据文件内容推断"
+          },
+          directory: {
+            type: "string",
+            description: "可选的目录模板，支持 {YYYY} {MM} {DD} {type}。默认使用 github-path-template 配置"
+          },
+          mode: {
+            type: "string",
+            description: "同名文件已存在时的策略: 'fail'(报错), 'overwrite'(覆盖), 'skip-if-identical'(相同则跳过)。默认使用 github-upload-mode 配置",
+            enum: UPLOAD_MODES
+          },
+          message: {
+            type: "string",
+            description: "可选的提交信息"
+          }
+        },
+        required: ["content"],
+      },
+    },
+    handler: async (args: Record<string, unknown>, context: ToolContext): Promise<CallToolResult> => {
+      try {
+        const filename = (args.filename as string | undefined) ?? generateShortKey();
+        await context.reportProgress(0, 1, "正在上传到 GitHub");
+        const result = await uploadFile({
+          content: args.content as string,
+          filename,
+          message: (args.message as string | undefined) ?? filename,
+          mimeType: args.mimeType as string | undefined,
+          directory: args.directory as string | undefined,
+          mode: args.mode as UploadMode | undefined,
+        }, context.clientId, context.signal);
+        await context.reportProgress(1, 1, "完成");
+        return createTextResponse(JSON.stringify(result, null, 2));
+      } catch (error) {
+        return createTextResponse(`上传失败: ${error instanceof Error ? error.message : String(error)}`, true);
+      }
+    }
+  },
+  {
+    tool: {
+      name: "set-config",
+      description: "设置当前客户端的配置项，密钥类配置加密存储",
+      inputSchema: {
+        type: "object",
+        properties: {
+          key: {
+            type: "string",
+            description: "配置项名称",
+            enum: Object.keys(CONFIG_KEYS)
+          },
+          value: {
+            type: "string",
+            description: "配置值",
+            minLength: 1
+          }
+        },
+        required: ["key", "value"],
+      },
+    },
+    // 密钥类配置的值不能出现在审计日志中
+    audit: { redactArgs: ["value"] },
+    handler: async (args: Record<string, unknown>, context: ToolContext): Promise<CallToolResult> => {
+      const key = args.key as string;
+      const value = args.value as string;
+      if (!isConfigKey(key)) {
+        return createTextResponse(`未知配置项: ${key}`, true);
+      }
+
+      try {
+        await setConfig(context.clientId, key, value);
+        return createTextResponse(`${key} 已设置`);
+      } catch (error) {
+        return createTextResponse(`设置 ${key} 失败: ${error instanceof Error ? error.message : String(error)}`, true);
+      }
+    }
+  },
+  {
+    tool: {
+      name: "list-config",
+      description: "列出当前客户端可见的配置项及其来源，密钥类配置打码显示",
+      inputSchema: {
+        type: "object",
+        properties: {},
+      },
+    },
+    handler: async (_args: Record<string, unknown>, context: ToolContext): Promise<CallToolResult> => {
+      try {
+        const items = [];
+        for (const [key, definition] of Object.entries(CONFIG_KEYS)) {
+          const resolved = await resolveConfig(context.clientId, key as ConfigKey);
+          items.push({
+            key,
+            description: definition.description,
+            env: definition.env,
+            secret: definition.secret,
+            source: resolved?.source ?? null,
+            value: resolved ? (definition.secret ? maskSecret(resolved.value) : resolved.value) : null,
+          });
+        }
+        return createTextResponse(JSON.stringify(items, null, 2));
+      } catch (error) {
+        return createTextResponse(`读取配置失败: ${error instanceof Error ? error.message : String(error)}`, true);
+      }
+    }
+  },
+  {
+    tool: {
+      name: "delete-config",
+      description: "删除当前客户端设置的配置项，删除后回退到环境变量或配置文件",
+      inputSchema: {
+        type: "object",
+        properties: {
+          key: {
+            type: "string",
+            description: "配置项名称",
+            enum: Object.keys(CONFIG_KEYS)
+          }
+        },
+        required: ["key"],
+      },
+    },
+    handler: async (args: Record<string, unknown>, context: ToolContext): Promise<CallToolResult> => {
+      const key = args.key as string;
+      if (!isConfigKey(key)) {
+        return createTextResponse(`未知配置项: ${key}`, true);
+      }
+
+      try {
+        const deleted = await deleteConfig(context.clientId, key);
+        return createTextResponse(deleted ? `${key} 已删除` : `${key} 未在当前客户端设置`);
+      } catch (error) {
+        return createTextResponse(`删除 ${key} 失败: ${error instanceof Error ? error.message : String(error)}`, true);
+      }
+    }
+  },
+  {
+    tool: {
+      name: "quota-status",
+      description: "查看当前客户端各工具的调用限制和剩余额度",
+      inputSchema: {
+        type: "object",
+        properties: {
+          tool: {
+            type: "string",
+            description: "只查看指定工具，省略时列出所有有调用限制的工具"
+          }
+        },
+      },
+    },
+    handler: async (args: Record<string, unknown>, context: ToolContext): Promise<CallToolResult> => {
+      const name = args.tool as string | undefined;
+
+      try {
+        const handlers = toolRegistry.getHandlers().filter(handler =>
+          (!name || handler.tool.name === name) && isToolAvailable(handler.tool.name, context.clientId)
+        );
+        if (handlers.length === 0) {
+          return createTextResponse(`未知工具: ${name}`, true);
+        }
+
+        const statuses = [];
+        for (const handler of handlers) {
+          const limits = resolveToolLimits(handler, context.clientId);
+          if (!limits) continue;
+          const { subject, group } = quotaScope(handler, context.identity);
+          statuses.push({
+            tool: handler.tool.name,
+            ...(group !== handler.tool.name ? { group } : {}),
+            ...await getQuotaUsage(subject, group, limits),
+          });
+        }
+        if (name && statuses.length === 0) {
+          return createTextResponse(`${name} 没有调用限制`);
+        }
+        return createTextResponse(JSON.stringify(statuses, null, 2));
+      } catch (error) {
+        return createTextResponse(`读取额度失败: ${error instanceof Error ? error.message : String(error)}`, true);
+      }
+    }
+  },
+  {
+    tool: {
+      name: "audit-query",
+      description: "查询工具调用的审计记录（按时间倒序）。非管理员只能查询自己的记录",
+      inputSchema: {
+        type: "object",
+        properties: {
+          tool: {
+            type: "string",
+            description: "只查询指定工具"
+          },
+          clientId: {
+            type: "string",
+            description: "只查询指定客户端（需要管理员权限），默认为全部客户端或当前客户端"
+          },
+          from: {
+            type: "string",
+            description: "起始时间（含），ISO 8601 或毫秒时间戳"
+          },
+          to: {
+            type: "string",
+            description: "结束时间（含），ISO 8601 或毫秒时间戳"
+          },
+          outcome: {
+            type: "string",
+            description: "只查询指定结果：success 成功，validation 参数错误，rate_limit 超出限制，tool 工具返回错误，exception 执行异常",
+            enum: AUDIT_OUTCOMES
+          },
+          limit: {
+            type: "integer",
+            description: "最多返回的记录数",
+            minimum: 1,
+            maximum: AUDIT_MAX_QUERY,
+            default: 50
+          },
+          format: {
+            type: "string",
+            description: "输出格式：json 数组或 jsonl（每行一条记录）",
+            enum: ["json", "jsonl"],
+            default: "json"
+          }
+        },
+      },
+    },
+    handler: async (args: Record<string, unknown>, context: ToolContext): Promise<CallToolResult> => {
+      const clientId = args.clientId as string | undefined;
+
+      try {
+        if (!canReadAuditOf(context.identity, clientId)) {
+          return createTextResponse("需要管理员权限才能查询其他客户端的审计记录", true);
+        }
+
+        const records = await queryAuditLog({
+          tool: args.tool as string | undefined,
+          clientId: context.identity.admin ? clientId : context.clientId,
+          from: args.from === undefined ? undefined : parseAuditTime(args.from as string),
+          to: args.to === undefined ? undefined : parseAuditTime(args.to as string),
+          outcome: args.outcome as AuditRecord["outcome"] | undefined,
+          limit: args.limit as number,
+        });
+        if (records.length === 0) {
+          return createTextResponse("没有符合条件的审计记录");
+        }
+        return createTextResponse(formatAuditRecords(records, args.format as "json" | "jsonl"));
+      } catch (error) {
+        return createTextResponse(`查询审计记录失败: ${error instanceof Error ? error.message : String(error)}`, true);
+      }
+    }
+  },
+  {
+    tool: {
+      name: "issue-api-key",
+      description: "签发新的 API 密钥（需要管理员权限），密钥明文只返回这一次",
+      inputSchema: {
+        type: "object",
+        properties: {
+          label: {
+            type: "string",
+            description: "密钥标签，用于识别使用者",
+            minLength: 1
+          },
+          clientId: {
+            type: "string",
+            description: "可选的客户端标识，使用相同标识的密钥共享配置和发布记录。默认为密钥 ID"
+          },
+          admin: {
+            type: "boolean",
+            description: "是否授予管理员权限",
+            default: false
+          }
+        },
+        required: ["label"],
+      },
+    },
+    audit: { omitResult: true },
+    handler: async (args: Record<string, unknown>, context: ToolContext): Promise<CallToolResult> => {
+      try {
+        requireAdmin(context);
+        const { key, record } = await issueApiKey(args.label as string, {
+          clientId: args.clientId as string | undefined,
+          admin: args.admin as boolean,
+        });
+        context.logger.info("API 密钥已签发", { keyId: record.id, keyClientId: record.clientId, admin: record.admin });
+        return createTextResponse(JSON.stringify({ key, ...describeApiKey(record) }, null, 2));
+      } catch (error) {
+        return createTextResponse(`签发 API 密钥失败: ${error instanceof Error ? error.message : String(error)}`, true);
+      }
+    }
+  },
+  {
+    tool: {
+      name: "list-api-keys",
+      description: "列出全部 API 密钥（需要管理员权限），不包含密钥明文",
+      inputSchema: {
+        type: "object",
+        properties: {},
+      },
+    },
+    handler: async (_args: Record<string, unknown>, context: ToolContext): Promise<CallToolResult> => {
+      try {
+        requireAdmin(context);
+        const records = await listApiKeys();
+        return createTextResponse(JSON.stringify(records.map(describeApiKey), null, 2));
+      } catch (error) {
+        return createTextResponse(`读取 API 密钥失败: ${error instanceof Error ? error.message : String(error)}`, true);
+      }
+    }
+  },
+  {
+    tool: {
+      name: "revoke-api-key",
+      description: "吊销 API 密钥（需要管理员权限），已建立的会话在下次请求时失效",
+      inputSchema: {
+        type: "object",
+        properties: {
+          id: {
+            type: "string",
+            description: "密钥 ID"
+          }
+        },
+        required: ["id"],
+      },
+    },
+    handler: async (args: Record<string, unknown>, context: ToolContext): Promise<CallToolResult> => {
+      const id = args.id as string;
+
+      try {
+        requireAdmin(context);
+        const record = await revokeApiKey(id);
+        context.logger.info("API 密钥已吊销", { keyId: id });
+        return createTextResponse(JSON.stringify(describeApiKey(record), null, 2));
+      } catch (error) {
+        return createTextResponse(`吊销 API 密钥失败: ${error instanceof Error ? error.message : String(error)}`, true);
+      }
+    }
+  }
+];
+
+// ==================== 提示词模板 ====================
+
+const PROMPT_NAME_PATTERN = "^[A-Za-z0-9_-]{1,64}$";
+
+/**
+ * 内置提示词
+ */
+const BUILTIN_PROMPTS: PromptDefinition[] = [
+  {
+    name: "publish-document",
+    title: "发布为可分享页面",
+    description: "将文档发布为可分享的页面，并返回链接",
+    arguments: [
+      { name: "content", description: "要发布的文档内容", required: true },
+      { name: "title", description: "页面标题" },
+      { name: "suffix", description: "URL 后缀", default: ".md" },
+      { name: "backend", description: "发布后端，默认使用 publish-backend 配置", enum: Object.keys(PUBLISHERS) },
+      { name: "expiresIn", description: "有效期，单位为秒", type: "number" },
+    ],
+    template: `请将下面的文档发布为可分享的页面。
+
+1. 检查文档内容，必要时修正明显的格式问题，但不要改变原意。
+2. 调用 deploy-to-tiny-server 工具发布，suffix 为 "{{suffix}}"{{#title}}，title 为 "{{title}}"{{/title}}{{#backend}}，backend 为 "{{backend}}"{{/backend}}{{#expiresIn}}，expiresIn 为 {{expiresIn}}{{/expiresIn}}。
+3. 发布成功后返回页面链接和发布 key，便于之后用 update-publication 更新。
+
+文档内容：
+
+{{content}}`,
+  },
+  {
+    name: "generate-cover-image",
+    title: "生成文章封面图",
+    description: "阅读文章并为其生成一张封面图",
+    arguments: [
+      { name: "article", description: "文章内容", required: true },
+      { name: "style", description: "画面风格，例如 '扁平插画'、'水彩'" },
+      { name: "size", description: "图片尺寸", default: "1200x630" },
+      { name: "provider", description: "图片生成服务，默认使用 image-provider 配置", enum: Object.keys(IMAGE_PROVIDERS) },
+    ],
+    template: `请为下面的文章生成一张封面图。
+
+1. 阅读文章，提炼主题、关键意象和情绪基调。
+2. 写一段简洁的英文图像描述，画面中不要出现文字{{#style}}，整体风格为：{{style}}{{/style}}。
+3. 调用 generate-image 工具，prompt 为上一步的图像描述，size 为 "{{size}}"{{#provider}}，provider 为 "{{provider}}"{{/provider}}。
+4. 返回图像描述和生成的图片。
+
+文章内容：
+
+{{article}}`,
+  },
+  {
+    name: "summarize-json",
+    title: "总结 JSON 数据",
+    description: "说明 JSON 数据的结构并总结其中的关键信息",
+    arguments: [
+      { name: "json", description: "要总结的 JSON 数据", required: true, type: "json" },
+      { name: "focus", description: "需要重点关注的字段或问题" },
+      { name: "maxWords", description: "总结的最大字数", type: "number", default: "200" },
+    ],
+    template: `请总结下面的 JSON 数据。
+
+- 说明数据的整体结构：顶层类型、主要字段及其含义、数组的元素数量和元素结构。
+- 指出值得注意的数据，例如空值、异常值或不一致的字段。
+{{#focus}}- 重点关注：{{focus}}
+{{/focus}}- 总结不超过 {{maxWords}} 字。数据较大时可先用 queryJSON 工具提取需要的部分。
+
+\`\`\`json
+{{json}}
+\`\`\``,
+  },
+];
+
+/**
+ * 从模板目录加载的提示词，启动时设置
+ */
+let customPrompts: PromptDefinition[] = [];
+
+/**
+ * 模板文件 front matter 的校验规则
+ */
+const PROMPT_FRONT_MATTER_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    name: { type: "string", pattern: PROMPT_NAME_PATTERN },
+    title: { type: "string" },
+    description: { type: "string" },
+    arguments: {
+      type: "array",
+      default: [],
+      items: {
+        type: "object",
+        properties: {
+          name: { type: "string", pattern: "^\\w+$" },
+          description: { type: "string" },
+          required: { type: "boolean" },
+          type: { type: "string", enum: ["string", "number", "boolean", "json"] },
+          enum: { type: "array", items: { type: "string" } },
+          default: { type: "string" },
+        },
+        required: ["name"],
+      },
+    },
+  },
+  required: ["description"],
+};
+
+/**
+ * 生成参数说明，附带类型、可选值和默认值
+ */
+function describePromptArgument(arg: PromptArgumentDefinition): string {
+  const notes: string[] = [];
+  if (arg.type && arg.type !== "string") notes.push(`类型: ${arg.type}`);
+  if (arg.enum) notes.push(`可选值: ${arg.enum.join(", ")}`);
+  if (arg.default !== undefined) notes.push(`默认: ${arg.default}`);
+  const description = arg.description ?? arg.name;
+  return notes.length ? `${description}（${notes.join("；")}）` : description;
+}
+
+/**
+ * 按参数定义校验并转换参数，返回用于渲染的字符串值
+ */
+function resolvePromptArguments(definition: PromptDefinition, args: Record<string, string>): Record<string, string> {
+  const issues: ValidationIssue[] = [];
+  const values: Record<string, string> = {};
+  const known = new Set(definition.arguments.map(arg => arg.name));
+
+  for (const name of Object.keys(args)) {
+    if (!known.has(name)) issues.push({ path: name, message: "未知参数" });
+  }
+
+  for (const arg of definition.arguments) {
+    const raw = args[arg.name] ?? arg.default;
+    if (raw === undefined || raw === "") {
+      if (arg.required) issues.push({ path: arg.name, message: "缺少必填参数" });
+      continue;
+    }
+    if (arg.enum && !arg.enum.includes(raw)) {
+      issues.push({ path: arg.name, message: `取值应为 ${arg.enum.join(", ")} 之一` });
+      continue;
+    }
+
+    switch (arg.type ?? "string") {
+      case "number":
+        if (!Number.isFinite(Number(raw))) {
+          issues.push({ path: arg.name, message: "应为数字" });
+          continue;
+        }
+        values[arg.name] = String(Number(raw));
+        break;
+      case "boolean":
+        if (raw !== "true" && raw !== "false") {
+          issues.push({ path: arg.name, message: "应为 true 或 false" });
+          continue;
+        }
+        values[arg.name] = raw;
+        break;
+      case "json":
+        try {
+          values[arg.name] = JSON.stringify(JSON.parse(raw), null, 2);
+        } catch (error) {
+          issues.push({ path: arg.name, message: `不是有效的 JSON: ${error instanceof Error ? error.message : String(error)}` });
+        }
+        break;
+      default:
+        values[arg.name] = raw;
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `提示词参数校验失败: ${issues.map(issue => `${issue.path}: ${issue.message}`).join("; ")}`
+    );
+  }
+  return values;
+}
+
+/**
+ * 渲染提示词模板
+ * {{name}} 替换为参数值；{{#name}}...{{/name}} 在参数为空时整段移除
+ */
+function renderPromptTemplate(template: string, values: Record<string, string>): string {
+  return template
+    .replace(/\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g, (_match, name, inner) => values[name] ? inner : "")
+    .replace(/\{\{(\w+)\}\}/g, (_match, name) => values[name] ?? "")
+    .trim();
+}
+
+/**
+ * 解析模板文件：YAML front matter 描述名称和参数，正文为模板
+ * @param text 文件内容
+ * @param path 文件路径，用于错误信息和默认名称
+ */
+function parsePromptFile(text: string, path: string): PromptDefinition {
+  const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/);
+  if (!match) {
+    throw new Error(`${path}: 缺少 YAML front matter`);
+  }
+
+  const issues: ValidationIssue[] = [];
+  const meta = validateSchema(PROMPT_FRONT_MATTER_SCHEMA, YAML.parse(match[1]) ?? {}, "", issues, true) as
+    Omit<PromptDefinition, "template" | "name"> & { name?: string };
+  if (issues.length > 0) {
+    throw new Error(`${path}: ${issues.map(issue => `${issue.path}: ${issue.message}`).join("; ")}`);
+  }
+
+  const fileName = path.slice(path.lastIndexOf("/") + 1).replace(/\.md$/, "");
+  const name = meta.name ?? fileName;
+  if (!new RegExp(PROMPT_NAME_PATTERN).test(name)) {
+    throw new Error(`${path}: 无效的提示词名称 ${name}`);
+  }
+
+  // 模板中引用的参数必须已声明，避免拼写错误被静默渲染为空
+  const declared = new Set(meta.arguments.map(arg => arg.name));
+  const undeclared = [...match[2].matchAll(/\{\{[#/]?(\w+)\}\}/g)]
+    .map(m => m[1])
+    .filter(arg => !declared.has(arg));
+  if (undeclared.length > 0) {
+    throw new Error(`${path}: 模板引用了未声明的参数 ${[...new Set(undeclared)].join(", ")}`);
+  }
+
+  return { ...meta, name, template: match[2], source: path };
+}
+
+/**
+ * 从目录加载 .md 提示词模板，同名模板覆盖内置模板
+ *
+ * 模板文件示例：
+ * ---
+ * description: 将会议记录整理为纪要
+ * arguments:
+ *   - name: notes
+ *     required: true
+ * ---
+ * 请将下面的会议记录整理为纪要：{{notes}}
+ */
+async function loadPromptTemplates(dir: string): Promise<PromptDefinition[]> {
+  const paths: string[] = [];
+  for await (const entry of Deno.readDir(dir)) {
+    if (entry.isFile && entry.name.endsWith(".md")) {
+      paths.push(`${dir.replace(/\/+$/, "")}/${entry.name}`);
+    }
+  }
+
+  const definitions: PromptDefinition[] = [];
+  for (const path of paths.sort()) {
+    definitions.push(parsePromptFile(await Deno.readTextFile(path), path));
+  }
+  return definitions;
+}
+
+// ==================== 插件加载 ====================
+
+/**
+ * 所有会话共享的工具注册表，插件加载或卸载后对已连接的会话立即生效
+ */
+const toolRegistry = new ToolRegistry();
+toolRegistry.registerAll(TOOLS);
+
+const PLUGIN_EXTENSIONS = [".ts", ".js", ".mjs"];
+/** 编辑器保存时会连续触发多个文件事件，合并后再重新加载 */
+const PLUGIN_RELOAD_DELAY_MS = 200;
+
+/**
+ * 插件来源（文件路径或模块地址）及其注册的工具名
+ */
+const pluginTools: Map<string, string[]> = new Map();
+
+/**
+ * 各插件来源的导入次数，再次导入时附加版本参数绕过模块缓存
+ */
+const pluginImportCounts: Map<string, number> = new Map();
+
+let pluginWatcher: Deno.FsWatcher | undefined;
+
+function isPluginFile(path: string): boolean {
+  return PLUGIN_EXTENSIONS.some(extension => path.endsWith(extension));
+}
+
+/**
+ * 将插件来源转换为可导入的地址，本地路径转为 file: URL
+ */
+async function resolvePluginUrl(source: string): Promise<URL> {
+  if (/^[a-z][a-z0-9+.-]*:/i.test(source)) return new URL(source);
+  const url = new URL("file://");
+  url.pathname = await Deno.realPath(source);
+  return url;
+}
+
+/**
+ * 导入插件模块并取出工具处理器
+ * 插件默认导出 ToolHandler 或 ToolHandler 数组，也可以命名导出 tools 数组
+ * 同一来源的再次导入（包括删除后重新创建的文件）绕过模块缓存，只对插件文件本身生效，其依赖仍使用缓存
+ */
+async function importPlugin(source: string): Promise<ToolHandler[]> {
+  const url = await resolvePluginUrl(source);
+  // 导入失败的模块同样会被缓存，因此无论成败都计数
+  const count = pluginImportCounts.get(source) ?? 0;
+  pluginImportCounts.set(source, count + 1);
+  if (count > 0) url.searchParams.set("v", String(count));
+
+  const module = await import(url.href);
+  const exported = module.default ?? module.tools;
+  if (exported === undefined) {
+    throw new Error(`${source}: 插件应默认导出 ToolHandler 或 ToolHandler 数组`);
+  }
+
+  const handlers: unknown[] = Array.isArray(exported) ? exported : [exported];
+  handlers.forEach((handler, index) => {
+    const { tool, handler: fn } = (handler ?? {}) as Partial<ToolHandler>;
+    if (typeof tool?.name !== "string" || typeof tool.inputSchema !== "object" || typeof fn !== "function") {
+      throw new Error(`${source}: 第 ${index + 1} 个工具缺少 tool.name、tool.inputSchema 或 handler`);
+    }
+  });
+  return handlers as ToolHandler[];
+}
+
+/**
+ * 加载或重新加载插件，替换该插件之前注册的工具
+ * 工具名不能与内置工具或其他插件的工具重复
+ */
+async function loadPlugin(source: string): Promise<void> {
+  const handlers = await importPlugin(source);
+  const previous = pluginTools.get(source) ?? [];
+
+  const names = new Set<string>();
+  for (const { tool } of handlers) {
+    if (names.has(tool.name)) {
+      throw new Error(`${source}: 工具名 ${tool.name} 重复`);
+    }
+    if (toolRegistry.has(tool.name) && !previous.includes(tool.name)) {
+      throw new Error(`${source}: 工具名 ${tool.name} 已被占用`);
+    }
+    names.add(tool.name);
+  }
+
+  toolRegistry.unregister(...previous.filter(name => !names.has(name)));
+  toolRegistry.registerAll(handlers);
+  const reloaded = pluginTools.has(source);
+  pluginTools.set(source, [...names]);
+  logger.info(reloaded ? "已重新加载插件" : "已加载插件", { source, tools: [...names] });
+}
+
+/**
+ * 卸载插件并注销其工具
+ */
+function unloadPlugin(source: string): void {
+  const names = pluginTools.get(source);
+  if (!names) return;
+  toolRegistry.unregister(...names);
+  pluginTools.delete(source);
+  logger.info("已卸载插件", { source, tools: names });
+}
+
+/**
+ * 加载插件目录中的所有插件文件（不递归）
+ */
+async function loadPluginsDir(dir: string): Promise<void> {
+  const paths: string[] = [];
+  for await (const entry of Deno.readDir(dir)) {
+    if (entry.isFile && isPluginFile(entry.name)) {
+      paths.push(`${dir}/${entry.name}`);
+    }
+  }
+
+  for (const path of paths.sort()) {
+    await loadPlugin(path);
+  }
+}
+
+/**
+ * 监听插件目录，文件变化时重新加载、删除时卸载
+ * 重新加载失败时保留旧版本的工具
+ */
+function watchPluginsDir(dir: string): void {
+  pluginWatcher = Deno.watchFs(dir, { recursive: false });
+  const pending: Map<string, ReturnType<typeof setTimeout>> = new Map();
+
+  const reload = async (path: string) => {
+    try {
+      await Deno.stat(path);
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        unloadPlugin(path);
+        return;
+      }
+      throw error;
+    }
+    await loadPlugin(path);
+  };
 
-  // 随机数生成
-  {
-    tool: {
-      name: "generateRandom",
-      description: "生成随机数或随机字符串",
-      inputSchema: {
-        type: "object",
-        properties: {
-          type: {
-            type: "string",
-            description: "生成类型: 'number'(数字), 'string'(字符串), 'uuid'(UUID)"
-          },
-          min: {
-            type: "number",
-            description: "当type为number时的最小值（包含）"
-          },
-          max: {
-            type: "number",
-            description: "当type为number时的最大值（包含）"
-          },
-          length: {
-            type: "number",
-            description: "当type为string时的字符串长度"
-          },
-          charset: {
-            type: "string",
-            description: "当type为string时的字符集: 'alphanumeric'(字母数字), 'alpha'(字母), 'numeric'(数字), 'hex'(十六进制), 'custom'(自定义)"
-          },
-          customCharset: {
-            type: "string",
-            description: "当charset为custom时的自定义字符集"
-          },
+  (async () => {
+    for await (const event of pluginWatcher!) {
+      for (const fullPath of event.paths) {
+        const name = fullPath.slice(fullPath.lastIndexOf("/") + 1);
+        if (!isPluginFile(name)) continue;
+        // 与启动时加载使用相同的来源标识
+        const path = `${dir}/${name}`;
+        clearTimeout(pending.get(path));
+        pending.set(path, setTimeout(() => {
+          pending.delete(path);
+          reload(path).catch(error => logger.error("加载插件失败", { source: path, error }));
+        }, PLUGIN_RELOAD_DELAY_MS));
+      }
+    }
+  })().catch(error => logger.error("监听插件目录失败", { dir, error }));
+  logger.info("正在监听插件目录", { dir });
+}
+
+/**
+ * 停止监听插件目录，使 stdio 模式在输入结束后能正常退出
+ */
+function stopWatchingPlugins(): void {
+  pluginWatcher?.close();
+  pluginWatcher = undefined;
+}
+
+// ==================== 服务器配置 ====================
+
+/**
+ * 创建服务器的选项
+ */
+interface CreateServerOptions {
+  /** 调用方身份，传递给每次工具调用 */
+  identity: ClientIdentity;
+}
+
+/**
+ * 创建并配置服务器
+ * @returns 服务器实例和清理函数
+ */
+function createServer(options: CreateServerOptions): { server: Server; cleanup: () => Promise<void> } {
+  const { clientId } = options.identity;
+
+  // 注册提示词，模板目录中的同名提示词覆盖内置提示词
+  const promptRegistry = new PromptRegistry();
+  promptRegistry.registerAll(BUILTIN_PROMPTS);
+  promptRegistry.registerAll(customPrompts);
+
+  // 创建服务器
+  const server = new Server(
+    {
+      name: "工具服务器",
+      version: "1.0.0",
+      description: "模块化工具服务器，提供各种实用工具功能"
+    },
+    {
+      capabilities: {
+        tools: {
+          list: true,
+          call: true,
+          listChanged: true,
         },
-        required: ["type"],
+        resources: {
+          subscribe: true,
+          listChanged: true,
+        },
+        prompts: {},
+        logging: {},
       },
-    },
-    handler: async (args: Record<string, unknown>): Promise<CallToolResult> => {
-      const type = args.type as string;
+    }
+  );
 
-      try {
-        if (type === "number") {
-          const min = typeof args.min === "number" ? args.min : 0;
-          const max = typeof args.max === "number" ? args.max : 100;
+  // 设置工具请求处理程序
+  server.setRequestHandler(ListToolsRequestSchema, () => {
+    return { tools: toolRegistry.getTools(clientId) };
+  });
 
-          if (min > max) {
-            return createTextResponse("最小值不能大于最大值", true);
-          }
+  // 客户端选择的日志级别，每个会话各自维护
+  let clientLogLevel: LoggingLevel | undefined;
+  server.setRequestHandler(SetLevelRequestSchema, (request: SetLevelRequest) => {
+    clientLogLevel = request.params.level;
+    return {};
+  });
 
-          const random = Math.floor(Math.random() * (max - min + 1)) + min;
-          return createTextResponse(random.toString());
-        }
-        else if (type === "string") {
-          const length = typeof args.length === "number" ? args.length : 10;
-          const charset = args.charset as string || "alphanumeric";
-
-          let chars = "";
-          switch (charset) {
-            case "alphanumeric":
-              chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
-              break;
-            case "alpha":
-              chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
-              break;
-            case "numeric":
-              chars = "0123456789";
-              break;
-            case "hex":
-              chars = "0123456789abcdef";
-              break;
-            case "custom":
-              chars = args.customCharset as string || "";
-              if (!chars) {
-                return createTextResponse("自定义字符集不能为空", true);
-              }
-              break;
-            default:
-              return createTextResponse(`未知字符集类型: ${charset}`, true);
-          }
+  // 设置工具调用处理程序
+  server.setRequestHandler(CallToolRequestSchema, (
+    request: CallToolRequest,
+    extra: {
+      sessionId?: string;
+      signal: AbortSignal;
+      sendNotification: (notification: ServerNotification) => Promise<void>;
+    }
+  ) => {
+    return toolRegistry.handleToolCall(request.params.name, request.params.arguments ?? {}, {
+      clientId,
+      identity: options.identity,
+      sessionId: extra.sessionId,
+      signal: extra.signal,
+      progressToken: request.params._meta?.progressToken,
+      // 通过请求关联的通道发送，Streamable HTTP 下随本次请求的响应流返回
+      sendNotification: extra.sendNotification,
+      clientLogLevel,
+    });
+  });
 
-          let result = "";
-          for (let i = 0; i < length; i++) {
-            result += chars.charAt(Math.floor(Math.random() * chars.length));
-          }
+  // 提示词
+  server.setRequestHandler(ListPromptsRequestSchema, () => {
+    return { prompts: promptRegistry.getPrompts() };
+  });
 
-          return createTextResponse(result);
-        }
-        else if (type === "uuid") {
-          // 简单的 UUID v4 实现
-          const hex = "0123456789abcdef";
-          let uuid = "";
-
-          for (let i = 0; i < 36; i++) {
-            if (i === 8 || i === 13 || i === 18 || i === 23) {
-              uuid += "-";
-            } else if (i === 14) {
-              uuid += "4"; // UUID 版本
-            } else if (i === 19) {
-              uuid += hex.charAt(Math.random() * 4 + 8); // UUID 变体
-            } else {
-              uuid += hex.charAt(Math.floor(Math.random() * 16));
-            }
-          }
+  server.setRequestHandler(GetPromptRequestSchema, (request: GetPromptRequest) => {
+    return promptRegistry.getPrompt(request.params.name, request.params.arguments ?? {});
+  });
 
-          return createTextResponse(uuid);
-        }
-        else {
-          return createTextResponse(`未支持的随机类型: ${type}`, true);
-        }
-      } catch (error) {
-        return createTextResponse(`随机生成错误: ${error instanceof Error ? error.message : String(error)}`, true);
+  // 资源：发布内容和上传文件
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return { resources: await listResources(clientId) };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, () => {
+    return { resourceTemplates: RESOURCE_TEMPLATES };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, (request: ReadResourceRequest) => {
+    return readResource(clientId, request.params.uri);
+  });
+
+  // 资源订阅，仅在本会话内有效
+  const subscriptions = new Set<string>();
+
+  server.setRequestHandler(SubscribeRequestSchema, (request: SubscribeRequest) => {
+    parseResourceUri(request.params.uri);
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, (request: UnsubscribeRequest) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const stopListening = onResourceEvent(async (event) => {
+    if (event.clientId !== clientId) return;
+    try {
+      if (subscriptions.has(event.uri)) {
+        await server.sendResourceUpdated({ uri: event.uri });
       }
+      if (event.listChanged) {
+        await server.sendResourceListChanged();
+      }
+    } catch (error) {
+      logger.warn("发送资源变更通知失败", { clientId, uri: event.uri, error });
     }
-  },
+  });
 
-  // 单位转换
-  {
-    tool: {
-      name: "convertUnit",
-      description: "在不同单位之间转换数值",
-      inputSchema: {
-        type: "object",
-        properties: {
-          value: { type: "number", description: "要转换的数值" },
-          category: {
-            type: "string",
-            description: "转换类别: 'length'(长度), 'weight'(重量), 'temperature'(温度), 'area'(面积), 'volume'(体积), 'time'(时间)"
-          },
-          fromUnit: { type: "string", description: "原始单位" },
-          toUnit: { type: "string", description: "目标单位" },
-        },
-        required: ["value", "category", "fromUnit", "toUnit"],
-      },
-    },
-    handler: async (args: Record<string, unknown>): Promise<CallToolResult> => {
-      const value = args.value as number;
-      const category = args.category as string;
-      const fromUnit = args.fromUnit as string;
-      const toUnit = args.toUnit as string;
+  // 插件加载或卸载后通知客户端重新获取工具列表
+  const stopToolListening = toolRegistry.onChange(async () => {
+    try {
+      await server.sendToolListChanged();
+    } catch (error) {
+      logger.warn("发送工具列表变更通知失败", { clientId, error });
+    }
+  });
 
-      try {
-        // 各种单位转换表（转换为基本单位的系数）
-        const conversionTables: Record<string, Record<string, number | string>> = {
-          length: {
-            'mm': 0.001, 'cm': 0.01, 'm': 1, 'km': 1000,
-            'in': 0.0254, 'ft': 0.3048, 'yd': 0.9144, 'mi': 1609.344
-          },
-          weight: {
-            'mg': 0.000001, 'g': 0.001, 'kg': 1, 't': 1000,
-            'oz': 0.0283495, 'lb': 0.453592, 'st': 6.35029
-          },
-          temperature: {
-            'C': 'celsius', 'F': 'fahrenheit', 'K': 'kelvin'
-          },
-          area: {
-            'mm2': 0.000001, 'cm2': 0.0001, 'm2': 1, 'km2': 1000000,
-            'in2': 0.00064516, 'ft2': 0.092903, 'ac': 4046.86, 'ha': 10000
-          },
-          volume: {
-            'ml': 0.001, 'l': 1, 'm3': 1000,
-            'tsp': 0.00492892, 'tbsp': 0.0147868, 'fl-oz': 0.0295735, 'cup': 0.236588,
-            'pt': 0.473176, 'qt': 0.946353, 'gal': 3.78541
-          },
-          time: {
-            'ms': 0.001, 's': 1, 'min': 60, 'h': 3600,
-            'day': 86400, 'week': 604800, 'month': 2592000, 'year': 31536000
-          }
-        };
+  // 清理函数
+  const cleanup = async (): Promise<void> => {
+    // 执行必要的清理操作
+    logger.debug("正在清理会话资源", { clientId });
+    stopListening();
+    stopToolListening();
+  };
 
-        // 检查类别是否支持
-        if (!conversionTables[category]) {
-          return createTextResponse(`不支持的转换类别: ${category}`, true);
-        }
+  return { server, cleanup };
+}
 
-        // 检查单位是否支持
-        if (category !== 'temperature') {
-          if (!(fromUnit in conversionTables[category])) {
-            return createTextResponse(`不支持的源单位: ${fromUnit}`, true);
-          }
-          if (!(toUnit in conversionTables[category])) {
-            return createTextResponse(`不支持的目标单位: ${toUnit}`, true);
-          }
-        }
+// ==================== 会话管理 ====================
 
-        let result: number;
+/**
+ * 客户端会话
+ * 每个会话拥有独立的传输层和服务器实例
+ */
+interface Session {
+  transport: SSEServerTransport | StreamableHTTPServerTransport;
+  server: Server;
+  cleanup: () => Promise<void>;
+  /** 建立会话的调用方，后续请求必须来自同一身份 */
+  identity: ClientIdentity;
+}
 
-        // 温度需要特殊处理
-        if (category === 'temperature') {
-          // 先转换为开尔文
-          let kelvin: number;
-          if (fromUnit === 'C') {
-            kelvin = value + 273.15;
-          } else if (fromUnit === 'F') {
-            kelvin = (value - 32) * 5 / 9 + 273.15;
-          } else if (fromUnit === 'K') {
-            kelvin = value;
-          } else {
-            return createTextResponse(`不支持的温度单位: ${fromUnit}`, true);
-          }
+/**
+ * 会话注册表，以传输层的 sessionId 为键
+ */
+const sessions: Map<string, Session> = new Map();
 
-          // 从开尔文转换为目标单位
-          if (toUnit === 'C') {
-            result = kelvin - 273.15;
-          } else if (toUnit === 'F') {
-            result = (kelvin - 273.15) * 9 / 5 + 32;
-          } else if (toUnit === 'K') {
-            result = kelvin;
-          } else {
-            return createTextResponse(`不支持的温度单位: ${toUnit}`, true);
-          }
-        } else {
-          // 其他单位转换：先转换为基本单位，再转换为目标单位
-          const fromFactor = conversionTables[category][fromUnit] as number;
-          const toFactor = conversionTables[category][toUnit] as number;
-          const baseValue = value * fromFactor;
-          result = baseValue / toFactor;
-        }
+/**
+ * 关闭并移除会话
+ * @param sessionId 会话 ID
+ */
+async function closeSession(sessionId: string): Promise<void> {
+  const session = sessions.get(sessionId);
+  if (!session) return;
 
-        return createTextResponse(result.toString());
-      } catch (error) {
-        return createTextResponse(`单位转换错误: ${error instanceof Error ? error.message : String(error)}`, true);
-      }
+  sessions.delete(sessionId);
+  try {
+    await session.cleanup();
+    await session.server.close();
+  } catch (error) {
+    logger.error("关闭会话失败", { sessionId, error });
+  }
+  logger.info("会话已关闭", { sessionId, clientId: session.identity.clientId, activeSessions: sessions.size });
+}
+
+// ==================== 启动参数 ====================
+
+/**
+ * 支持的传输方式
+ * - stdio: 标准输入输出，供本地桌面客户端使用
+ * - sse: 旧版 SSE + /message 端点
+ * - http: Streamable HTTP /mcp 端点
+ */
+type TransportType = "stdio" | "sse" | "http";
+
+/**
+ * API 密钥管理命令
+ */
+type KeyCommand =
+  | { action: "issue"; label: string; clientId?: string; admin: boolean }
+  | { action: "revoke"; id: string }
+  | { action: "list" };
+
+/**
+ * 启动参数
+ */
+interface ServerOptions {
+  transport: TransportType;
+  port: number;
+  /** HTTP 传输的认证方式 */
+  auth: AuthMode;
+  /** 配置文件路径 */
+  config?: string;
+  /** 提示词模板目录 */
+  promptsDir?: string;
+  /** 插件目录，文件变化时自动重新加载 */
+  pluginsDir?: string;
+  /** 额外加载的插件模块（路径或 URL） */
+  plugins: string[];
+  /** 指定时执行密钥管理命令后退出，不启动服务器 */
+  keyCommand?: KeyCommand;
+}
+
+/**
+ * 解析命令行参数
+ */
+function parseOptions(): ServerOptions {
+  let keyCommand: KeyCommand | undefined;
+
+  const program = new Command()
+    .name("tiny-ser-mcp")
+    .description("模块化 MCP 工具服务器")
+    .addOption(
+      new Option("-t, --transport <type>", "传输方式")
+        .choices(["stdio", "sse", "http"])
+        .default("sse")
+    )
+    .option("-p, --port <port>", "HTTP 监听端口（stdio 模式下忽略）", Deno.env.get("PORT") || "3001")
+    .addOption(
+      new Option("--auth <mode>", "HTTP 传输的认证方式（api-key: 要求 API 密钥，none: 不认证）")
+        .choices(["api-key", "none"])
+        .default(Deno.env.get("TINY_SER_AUTH") || "api-key")
+    )
+    .option("-c, --config <path>", "配置文件路径（JSON）", Deno.env.get("TINY_SER_CONFIG"))
+    .option("--prompts-dir <path>", "提示词模板目录（.md 文件）", Deno.env.get("TINY_SER_PROMPTS_DIR"))
+    .option("--plugins-dir <path>", "插件目录（.ts/.js/.mjs 文件），文件变化时自动重新加载", Deno.env.get("TINY_SER_PLUGINS_DIR"))
+    .option(
+      "--plugin <specifier>",
+      "加载插件模块（本地路径或 URL，可重复指定；远程模块需要 --allow-import 权限）",
+      (value: string, previous: string[]) => [...previous, value],
+      [] as string[]
+    )
+    // 不带子命令时启动服务器
+    .action(() => {});
+
+  const keys = program.command("keys").description("管理 API 密钥");
+  keys.command("issue")
+    .description("签发 API 密钥，明文只输出这一次")
+    .requiredOption("-l, --label <label>", "密钥标签")
+    .option("--client-id <id>", "客户端标识，默认为密钥 ID")
+    .option("--admin", "授予管理员权限", false)
+    .action((opts: { label: string; clientId?: string; admin: boolean }) => {
+      keyCommand = { action: "issue", ...opts };
+    });
+  keys.command("revoke <id>")
+    .description("吊销 API 密钥")
+    .action((id: string) => {
+      keyCommand = { action: "revoke", id };
+    });
+  keys.command("list")
+    .description("列出 API 密钥")
+    .action(() => {
+      keyCommand = { action: "list" };
+    });
+
+  program.parse(Deno.args, { from: "user" });
+
+  const opts = program.opts<{
+    transport: TransportType;
+    port: string;
+    auth: AuthMode;
+    config?: string;
+    promptsDir?: string;
+    pluginsDir?: string;
+    plugin: string[];
+  }>();
+  const port = Number(opts.port);
+  if (!Number.isInteger(port) || port <= 0) {
+    program.error(`无效的端口: ${opts.port}`);
+  }
+
+  return {
+    transport: opts.transport,
+    port,
+    auth: opts.auth,
+    config: opts.config,
+    promptsDir: opts.promptsDir,
+    pluginsDir: opts.pluginsDir,
+    plugins: opts.plugin,
+    keyCommand,
+  };
+}
+
+/**
+ * 从请求中提取 API 密钥
+ * 支持 Authorization: Bearer 和 x-api-key 头，以及供无法设置请求头的 SSE 客户端使用的 api_key 查询参数
+ */
+function extractApiKey(req: express.Request): string | undefined {
+  const authorization = req.headers.authorization;
+  if (authorization) {
+    const match = authorization.match(/^Bearer\s+(\S+)$/i);
+    if (match) return match[1];
+  }
+  const header = req.headers["x-api-key"];
+  if (typeof header === "string" && header) return header;
+  const query = req.query.api_key;
+  if (typeof query === "string" && query) return query;
+  return undefined;
+}
+
+/**
+ * 解析 HTTP 请求的调用方身份，认证失败时返回 null
+ * 不认证时客户端标识优先取 x-client-id 头，其次为 client 查询参数
+ */
+async function authenticateRequest(req: express.Request, mode: AuthMode): Promise<ClientIdentity | null> {
+  if (mode === "none") {
+    const header = req.headers["x-client-id"];
+    const query = req.query.client;
+    const clientId = typeof header === "string" && header
+      ? header
+      : typeof query === "string" && query ? query : "default";
+    // 客户端标识可以随意更换，调用额度按连接来源计数
+    return { clientId, admin: false, quotaSubject: `ip:${req.ip ?? req.socket.remoteAddress ?? "unknown"}` };
+  }
+
+  const key = extractApiKey(req);
+  return key ? await authenticateApiKey(key) : null;
+}
+
+// ==================== 传输层 ====================
+
+/**
+ * 创建认证中间件，认证通过后将身份写入 res.locals.identity
+ */
+function requireAuth(mode: AuthMode): express.RequestHandler {
+  return async (req, res, next) => {
+    let identity: ClientIdentity | null;
+    try {
+      identity = await authenticateRequest(req, mode);
+    } catch (error) {
+      logger.error("认证失败", { error });
+      res.status(500).json({ jsonrpc: "2.0", error: { code: -32603, message: "认证服务不可用" }, id: null });
+      return;
     }
-  },
-  {
-    tool: {
-      name: "gemini-image-gen",
-      description: "使用 gemini-2.0-flash-exp-image-generation 生成图片",
-      inputSchema: {
-        type: "object",
-        properties: {
-          prompt: {
-            type: "string",
-            description: "图片生成提示词"
-          }
-        },
-        required: ["prompt"],
-      },
-    },
-    handler: async (args: Record<string, unknown>): Promise<CallToolResult> => {
-      const prompt = args.prompt as string;
-      const kv = await Deno.openKv();
-      const apiKey = await kv.get(["gemini-api-key"]);
-      if (!apiKey) {
-        return createTextResponse("未设置 API 密钥", true);
-      }
 
-      try {
-        const response = await fetch(
-          `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp-image-generation:generateContent?key=${apiKey}`,
-          {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json"
-            },
-            body: JSON.stringify({
-              contents: [{
-                parts: [
-                  { text: prompt }
-                ]
-              }],
-              generationConfig: {
-                responseModalities: ["Text", "Image"]
-              }
-            })
-          }
-        );
+    if (!identity) {
+      res.status(401)
+        .setHeader("WWW-Authenticate", 'Bearer realm="tiny-ser-mcp"')
+        .json({
+          jsonrpc: "2.0",
+          error: { code: -32000, message: "未认证：请通过 Authorization: Bearer <API 密钥> 提供有效的密钥" },
+          id: null,
+        });
+      return;
+    }
+
+    res.locals.identity = identity;
+    next();
+  };
+}
+
+/**
+ * 判断请求身份是否与建立会话时一致，防止使用其他密钥接管会话
+ */
+function isSameIdentity(a: ClientIdentity, b: ClientIdentity): boolean {
+  return a.clientId === b.clientId && a.keyId === b.keyId;
+}
 
-        if (!response.ok) {
-          throw new Error(`API 请求失败: ${response.status} ${response.statusText}`);
-        }
+/**
+ * 挂载旧版 SSE 传输端点（/sse + /message）
+ */
+function mountSseTransport(app: express.Express, auth: AuthMode): void {
+  app.get("/sse", requireAuth(auth), async (req, res) => {
+    // 每个 SSE 连接拥有独立的服务器实例和传输层
+    const identity = res.locals.identity as ClientIdentity;
+    const { server, cleanup } = createServer({ identity });
+    // 通过查询参数认证的客户端同样无法为 /message 设置请求头，在端点地址中带上密钥
+    const queryKey = req.query.api_key;
+    const endpoint = typeof queryKey === "string" && queryKey
+      ? `/message?api_key=${encodeURIComponent(queryKey)}`
+      : "/message";
+    const transport = new SSEServerTransport(endpoint, res);
+    const sessionId = transport.sessionId;
 
-        const data = await response.text();
-        const base64Image = data.match(/"data": "([^"]*)"/)?.[1];
+    sessions.set(sessionId, { transport, server, cleanup, identity });
+    logger.info("会话已建立", { sessionId, transport: "sse", clientId: identity.clientId, keyId: identity.keyId, activeSessions: sessions.size });
 
-        if (!base64Image) {
-          throw new Error("未能从响应中提取图片数据");
-        }
+    // 客户端断开时清理会话
+    res.on("close", () => {
+      closeSession(sessionId);
+    });
 
-        const url = await uploadFile(base64Image, `${generateShortKey()}.png`, prompt);
-        return createTextResponse(`![${prompt}](${url})`);
-      } catch (error) {
-        return createTextResponse(`生成图片失败: ${error instanceof Error ? error.message : String(error)}`, true);
-      }
+    await server.connect(transport);
+  });
+
+  app.post("/message", requireAuth(auth), async (req, res) => {
+    const sessionId = req.query.sessionId;
+    if (typeof sessionId !== "string" || !sessionId) {
+      res.status(400).send("缺少 sessionId 参数");
+      return;
     }
-  },
-  {
-    tool: {
-      name: "set-github-token",
-      description: "设置 github token",
-      inputSchema: {
-        type: "object",
-        properties: {
-          token: {
-            type: "string",
-            description: "github token"
-          }
-        },
-        required: ["token"],
-      },
-    },
-    handler: async (args: Record<string, unknown>): Promise<CallToolResult> => {
-      const token = args.token as string;
 
-      try {
-        const kv = await Deno.openKv();
-        await kv.set(["github-token"], token);
-        return createTextResponse("github token 已设置");
-      } catch (error) {
-        return createTextResponse(`设置 github token 失败: ${error instanceof Error ? error.message : String(error)}`, true);
-      }
+    const session = sessions.get(sessionId);
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      res.status(404).send(`会话不存在或已关闭: ${sessionId}`);
+      return;
+    }
+    if (!isSameIdentity(session.identity, res.locals.identity)) {
+      res.status(403).send("无权访问其他调用方的会话");
+      return;
     }
-  },
-  {
-    tool: {
-      name: "set-gemini-api-key",
-      description: "设置 gemini-2.0-flash-exp-image-generation 的 API 密钥",
-      inputSchema: {
-        type: "object",
-        properties: {
-          apiKey: {
-            type: "string",
-            description: "API 密钥"
-          }
-        },
-        required: ["apiKey"],
-      },
-    },
-    handler: async (args: Record<string, unknown>): Promise<CallToolResult> => {
-      const apiKey = args.apiKey as string;
 
-      try {
-        const kv = await Deno.openKv();
-        await kv.set(["gemini-api-key"], apiKey);
-        return createTextResponse("API 密钥已设置");
-      } catch (error) {
-        return createTextResponse(`设置 API 密钥失败: ${error instanceof Error ? error.message : String(error)}`, true);
+    await session.transport.handlePostMessage(req, res);
+  });
+}
+
+/**
+ * 挂载 Streamable HTTP 传输端点（/mcp）
+ */
+function mountStreamableHttpTransport(app: express.Express, auth: AuthMode): void {
+  const forbidden = (res: express.Response) => {
+    res.status(403).json({
+      jsonrpc: "2.0",
+      error: { code: -32000, message: "无权访问其他调用方的会话" },
+      id: null,
+    });
+  };
+
+  // 初始化请求创建新会话，其余请求按 mcp-session-id 头路由到已有会话
+  app.post("/mcp", requireAuth(auth), express.json(), async (req, res) => {
+    const sessionId = req.headers["mcp-session-id"];
+    const identity = res.locals.identity as ClientIdentity;
+
+    if (typeof sessionId === "string") {
+      const session = sessions.get(sessionId);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        res.status(404).json({
+          jsonrpc: "2.0",
+          error: { code: -32000, message: `会话不存在或已关闭: ${sessionId}` },
+          id: null,
+        });
+        return;
+      }
+      if (!isSameIdentity(session.identity, identity)) {
+        forbidden(res);
+        return;
       }
+      await session.transport.handleRequest(req, res, req.body);
+      return;
     }
-  },
-  {
-    tool: {
-      name: "set-github-repo",
-      description: "设置 github repo",
-      inputSchema: {
-        type: "object",
-        properties: {
-          repo: {
-            type: "string",
-            description: "github repo"
-          }
-        },
-        required: ["repo"],
+
+    if (!isInitializeRequest(req.body)) {
+      res.status(400).json({
+        jsonrpc: "2.0",
+        error: { code: -32000, message: "缺少 mcp-session-id 头，且请求不是初始化请求" },
+        id: null,
+      });
+      return;
+    }
+
+    const { server, cleanup } = createServer({ identity });
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => crypto.randomUUID(),
+      onsessioninitialized: (id: string) => {
+        sessions.set(id, { transport, server, cleanup, identity });
+        logger.info("会话已建立", { sessionId: id, transport: "http", clientId: identity.clientId, keyId: identity.keyId, activeSessions: sessions.size });
       },
-    },
-    handler: async (args: Record<string, unknown>): Promise<CallToolResult> => {
-      const repo = args.repo as string;
+    });
 
-      try {
-        const kv = await Deno.openKv();
-        await kv.set(["github-repo"], repo);
-        return createTextResponse("github repo 已设置");
-      } catch (error) {
-        return createTextResponse(`设置 github repo 失败: ${error instanceof Error ? error.message : String(error)}`, true);
-      }
+    transport.onclose = () => {
+      if (transport.sessionId) closeSession(transport.sessionId);
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, req.body);
+  });
+
+  // GET 用于服务端推送流，DELETE 用于客户端主动结束会话
+  const handleSessionRequest = async (req: express.Request, res: express.Response) => {
+    const sessionId = req.headers["mcp-session-id"];
+    const session = typeof sessionId === "string" ? sessions.get(sessionId) : undefined;
+    if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+      res.status(400).send("无效或缺失的 mcp-session-id 头");
+      return;
     }
+    if (!isSameIdentity(session.identity, res.locals.identity)) {
+      forbidden(res);
+      return;
+    }
+    await session.transport.handleRequest(req, res);
+  };
+
+  app.get("/mcp", requireAuth(auth), handleSessionRequest);
+  app.delete("/mcp", requireAuth(auth), handleSessionRequest);
+}
+
+// ==================== 演练场 ====================
+
+/**
+ * 转义 HTML 特殊字符，用于文本内容和属性值
+ */
+function escapeHtml(value: unknown): string {
+  return String(value)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * 按参数的 schema 生成表单控件
+ * 控件的 data-type 决定提交时的转换方式：string 原样提交，number 转为数字，json 按 JSON 解析
+ */
+function renderSchemaField(toolName: string, name: string, schema: JsonSchema, required: boolean): string {
+  const id = escapeHtml(`${toolName}--${name}`);
+  const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  const type = types.length === 1 ? types[0] : undefined;
+  const placeholder = schema.default === undefined ? "" : ` placeholder="${escapeHtml(`默认: ${JSON.stringify(schema.default)}`)}"`;
+  const common = `id="${id}" name="${escapeHtml(name)}"${required && schema.default === undefined ? " required" : ""}`;
+
+  let control: string;
+  if (schema.enum || type === "boolean") {
+    const values = schema.enum ?? [true, false];
+    const empty = schema.default === undefined ? "（未设置）" : `（默认: ${String(schema.default)}）`;
+    const options = values.map(value =>
+      `<option value="${escapeHtml(JSON.stringify(value))}">${escapeHtml(String(value))}</option>`
+    );
+    control = `<select ${common} data-type="json"><option value="">${escapeHtml(empty)}</option>${options.join("")}</select>`;
+  } else if (type === "integer" || type === "number") {
+    const range = [
+      schema.minimum !== undefined ? ` min="${schema.minimum}"` : "",
+      schema.maximum !== undefined ? ` max="${schema.maximum}"` : "",
+    ].join("");
+    control = `<input type="number" step="${type === "integer" ? "1" : "any"}"${range} ${common} data-type="number"${placeholder}>`;
+  } else if (type === "string") {
+    control = `<textarea rows="2" ${common} data-type="string"${placeholder}></textarea>`;
+  } else {
+    // 数组、对象和多类型参数以 JSON 输入
+    const hint = placeholder || ` placeholder="JSON"`;
+    control = `<textarea rows="3" ${common} data-type="json"${hint}></textarea>`;
   }
-];
 
-// ==================== 服务器配置 ====================
+  return `
+          <div class="field">
+            <label for="${id}"><code>${escapeHtml(name)}</code>${required ? ' <span class="required">*</span>' : ""}</label>
+            ${control}
+            ${schema.description ? `<small>${escapeHtml(schema.description)}</small>` : ""}
+          </div>`;
+}
 
 /**
- * 创建并配置服务器
- * @returns 服务器实例和清理函数
+ * 生成单个工具的调用表单
  */
-function createServer(): { server: Server; cleanup: () => Promise<void> } {
-  // 创建注册表实例
-  const toolRegistry = new ToolRegistry();
+function renderToolForm(tool: Tool): string {
+  const properties = (tool.inputSchema.properties ?? {}) as Record<string, JsonSchema>;
+  const required = tool.inputSchema.required ?? [];
+  const fields = Object.entries(properties)
+    .map(([name, schema]) => renderSchemaField(tool.name, name, schema, required.includes(name)))
+    .join("");
 
-  // 注册工具
-  toolRegistry.registerAll(TOOLS);
+  return `
+      <details class="tool">
+        <summary><strong>${escapeHtml(tool.name)}</strong></summary>
+        <p>${escapeHtml(tool.description ?? "")}</p>
+        <form data-tool="${escapeHtml(tool.name)}">
+          ${fields || "<p>此工具没有参数</p>"}
+          <button type="submit">调用</button>
+        </form>
+        <div class="result" hidden></div>
+      </details>`;
+}
 
-  // 创建服务器
-  const server = new Server(
+/**
+ * 生成常用客户端的连接配置
+ */
+function renderClientConfigs(connectUrl: string, options: ServerOptions): string {
+  const headers = options.auth === "api-key" ? { Authorization: "Bearer <API 密钥>" } : undefined;
+  const configs = [
     {
-      name: "工具服务器",
-      version: "1.0.0",
-      description: "模块化工具服务器，提供各种实用工具功能"
+      name: "Cursor",
+      file: "~/.cursor/mcp.json",
+      config: { mcpServers: { "tiny-ser-mcp": { url: connectUrl, ...(headers ? { headers } : {}) } } },
     },
     {
-      capabilities: {
-        tools: {
-          list: true,
-          call: true
+      name: "Claude Desktop",
+      file: "claude_desktop_config.json（通过 mcp-remote 连接远程服务器）",
+      config: {
+        mcpServers: {
+          "tiny-ser-mcp": {
+            command: "npx",
+            args: ["-y", "mcp-remote", connectUrl, ...(headers ? ["--header", `Authorization: ${headers.Authorization}`] : [])],
+          },
         },
       },
-    }
-  );
+    },
+    {
+      name: "VS Code",
+      file: ".vscode/mcp.json",
+      config: {
+        servers: {
+          "tiny-ser-mcp": { type: options.transport === "http" ? "http" : "sse", url: connectUrl, ...(headers ? { headers } : {}) },
+        },
+      },
+    },
+  ];
 
-  // 设置工具请求处理程序
-  server.setRequestHandler(ListToolsRequestSchema, () => {
-    return { tools: toolRegistry.getTools() };
-  });
+  return configs.map(({ name, file, config }) => `
+      <h3>${escapeHtml(name)}</h3>
+      <p>写入 <code>${escapeHtml(file)}</code>：</p>
+      <div class="snippet">
+        <pre>${escapeHtml(JSON.stringify(config, null, 2))}</pre>
+        <button type="button" class="copy">复制</button>
+      </div>`).join("");
+}
 
-  // 设置工具调用处理程序
-  server.setRequestHandler(CallToolRequestSchema, (request: CallToolRequest) => {
-    return toolRegistry.handleToolCall(request.params.name, request.params.arguments ?? {});
-  });
+/**
+ * 演练场页面脚本：收集表单参数、调用 /playground/invoke 并渲染结果
+ * 结果只通过 textContent 和 img.src 写入页面，不拼接 HTML
+ */
+const PLAYGROUND_SCRIPT = `
+const credential = document.getElementById("credential");
+credential.value = sessionStorage.getItem("tiny-ser-credential") ?? "";
+credential.addEventListener("input", () => sessionStorage.setItem("tiny-ser-credential", credential.value));
 
-  // 清理函数
-  const cleanup = async (): Promise<void> => {
-    // 执行必要的清理操作
-    console.error("正在清理资源...");
-  };
+function element(tag, text, className) {
+  const node = document.createElement(tag);
+  if (text !== undefined) node.textContent = text;
+  if (className) node.className = className;
+  return node;
+}
 
-  return { server, cleanup };
+function renderResult(output, result) {
+  output.className = result.isError ? "result error" : "result success";
+  const nodes = [element("strong", result.isError ? "调用失败" : "调用成功")];
+  for (const item of result.content ?? []) {
+    if (item.type === "text") {
+      nodes.push(element("pre", item.text));
+    } else if (item.type === "image") {
+      const image = element("img");
+      image.src = "data:" + item.mimeType + ";base64," + item.data;
+      nodes.push(image);
+    } else {
+      nodes.push(element("pre", JSON.stringify(item, null, 2)));
+    }
+  }
+  output.replaceChildren(...nodes);
 }
 
-// ==================== 主程序 ====================
+for (const form of document.querySelectorAll("form[data-tool]")) {
+  form.addEventListener("submit", async (event) => {
+    event.preventDefault();
+    const output = form.parentElement.querySelector(".result");
+    const button = form.querySelector("button[type=submit]");
+    output.hidden = false;
 
-/**
- * 主程序入口
- */
-async function main() {
-  const { server, cleanup } = createServer();
-  const app = express();
-  let transport: SSEServerTransport;
+    const args = {};
+    for (const field of form.querySelectorAll("[data-type]")) {
+      if (field.value === "") continue;
+      try {
+        const type = field.dataset.type;
+        args[field.name] = type === "number" ? Number(field.value) : type === "json" ? JSON.parse(field.value) : field.value;
+      } catch {
+        output.className = "result error";
+        output.replaceChildren(element("strong", "参数 " + field.name + " 不是有效的 JSON"));
+        return;
+      }
+    }
 
-  // 添加根路由，返回使用说明页面
-  app.get("/", (req, res) => {
-    // 获取主机信息，如果没有则默认使用 localhost
-    const host = req.headers.host || `localhost:${PORT}`;
-    const protocol = req.headers['x-forwarded-proto'] || 'https';
-    const baseUrl = `${protocol}://${host}`;
+    button.disabled = true;
+    output.className = "result";
+    output.replaceChildren(element("span", "调用中…"));
+    try {
+      const headers = { "Content-Type": "application/json" };
+      if (credential.value) headers[credential.dataset.header] = credential.dataset.prefix + credential.value;
+      const response = await fetch("/playground/invoke", {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ tool: form.dataset.tool, arguments: args }),
+      });
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.error?.message ?? body.error ?? response.statusText);
+      renderResult(output, body);
+    } catch (error) {
+      output.className = "result error";
+      output.replaceChildren(element("strong", "请求失败"), element("pre", error.message ?? String(error)));
+    } finally {
+      button.disabled = false;
+    }
+  });
+}
 
-    // 从 TOOLS 数组生成工具 HTML
-    const toolsHtml = TOOLS.map(toolHandler => {
-      const { name, description, inputSchema } = toolHandler.tool;
+for (const button of document.querySelectorAll("button.copy")) {
+  button.addEventListener("click", async () => {
+    await navigator.clipboard.writeText(button.previousElementSibling.textContent);
+    button.textContent = "已复制";
+    setTimeout(() => button.textContent = "复制", 1500);
+  });
+}
+`;
 
-      // 生成参数列表
-      let paramsHtml = '';
-      if (inputSchema && inputSchema.properties) {
-        paramsHtml = '参数:\n';
-        for (const [paramName, paramSchema] of Object.entries(inputSchema.properties)) {
-          const paramDesc = (paramSchema as { description?: string }).description || '';
-          const required = inputSchema.required && inputSchema.required.includes(paramName) ? '' : '（可选）';
-          paramsHtml += `- ${paramName}${required}: ${paramDesc}\n`;
-        }
-      }
+/**
+ * 生成首页：连接说明、客户端配置和工具演练场
+ * @param baseUrl 由请求头推断的服务地址
+ */
+function renderLandingPage(options: ServerOptions, baseUrl: string): string {
+  // 根据传输方式展示对应端点
+  const connectUrl = options.transport === "http" ? `${baseUrl}/mcp` : `${baseUrl}/sse`;
+  const endpointsHtml = options.transport === "http"
+    ? `<strong>Streamable HTTP 端点:</strong> <code>${escapeHtml(`${baseUrl}/mcp`)}</code>`
+    : `<strong>SSE 端点:</strong> <code>${escapeHtml(`${baseUrl}/sse`)}</code><br>
+        <strong>消息端点:</strong> <code>${escapeHtml(`${baseUrl}/message`)}</code>`;
 
-      return `
-      <div class="tool">
-        <h3>${name}</h3>
-        <p>${description}</p>
-        <pre>${paramsHtml}</pre>
-      </div>
-      `;
-    }).join('');
+  const credentialHtml = options.auth === "api-key"
+    ? `<label for="credential">API 密钥</label>
+        <input type="password" id="credential" data-header="Authorization" data-prefix="Bearer " autocomplete="off">
+        <small>调用工具时以 <code>Authorization: Bearer</code> 头发送，只保存在当前标签页</small>`
+    : `<label for="credential">客户端标识</label>
+        <input type="text" id="credential" data-header="x-client-id" data-prefix="" placeholder="default">
+        <small>未启用认证，以 <code>x-client-id</code> 头区分客户端的配置和数据</small>`;
 
-    const html = `
+  // 从注册表生成工具表单，包含已加载的插件工具
+  const toolsHtml = toolRegistry.getTools().map(renderToolForm).join("");
+
+  return `
     <!DOCTYPE html>
     <html lang="zh-CN">
     <head>
@@ -833,8 +8136,10 @@ async function main() {
           padding: 15px;
           border-radius: 5px;
           overflow-x: auto;
+          white-space: pre-wrap;
+          word-break: break-all;
         }
-        .endpoint {
+        .endpoint, .credential {
           margin-bottom: 10px;
           padding: 10px;
           background-color: #e8f0fe;
@@ -842,66 +8147,325 @@ async function main() {
           border-radius: 3px;
         }
         .tool {
-          margin-bottom: 20px;
-          padding: 15px;
+          margin-bottom: 10px;
+          padding: 10px 15px;
           background-color: #f8f9fa;
           border-radius: 5px;
           border: 1px solid #dadce0;
         }
+        .tool summary {
+          cursor: pointer;
+        }
+        .field {
+          margin-bottom: 10px;
+        }
+        .field label, .field small, .credential label, .credential small {
+          display: block;
+        }
+        .field small, .credential small {
+          color: #5f6368;
+        }
+        .field input, .field select, .field textarea, .credential input {
+          width: 100%;
+          box-sizing: border-box;
+          font-family: monospace;
+        }
+        .required {
+          color: #d93025;
+        }
+        .snippet {
+          position: relative;
+        }
+        .snippet .copy {
+          position: absolute;
+          top: 8px;
+          right: 8px;
+        }
+        .result {
+          margin-top: 10px;
+          padding: 10px;
+          border-radius: 5px;
+          border: 1px solid #dadce0;
+        }
+        .result.success {
+          border-color: #1e8e3e;
+        }
+        .result.error {
+          border-color: #d93025;
+          background-color: #fce8e6;
+        }
+        .result img {
+          max-width: 100%;
+        }
       </style>
     </head>
     <body>
       <h1>MCP 工具服务器</h1>
       <p>这是一个基于 Model Context Protocol (MCP) 的工具服务器，提供多种实用工具功能。</p>
-      
+
       <h2>服务器端点</h2>
       <div class="endpoint">
-        <strong>SSE 端点:</strong> <code>${baseUrl}/sse</code><br>
-        <strong>消息端点:</strong> <code>${baseUrl}/message</code>
+        ${endpointsHtml}
+      </div>
+
+      <h2>客户端配置</h2>
+      ${options.auth === "api-key" ? "<p>将 <code>&lt;API 密钥&gt;</code> 替换为管理员签发的密钥。无法设置请求头的客户端可在 URL 后追加 <code>?api_key=&lt;API 密钥&gt;</code>。</p>" : ""}
+      ${renderClientConfigs(connectUrl, options)}
+
+      <h2>工具演练场</h2>
+      <p>填写参数后点击“调用”，通过本服务器执行工具并显示结果。调用与 MCP 客户端一样受配置档、调用限制和审计日志约束。</p>
+      <div class="credential">
+        ${credentialHtml}
       </div>
-      
-      <h2>如何连接</h2>
-      <p>在 Cursor 中，您可以通过以下步骤连接到此 MCP 服务器：</p>
-      <ol>
-        <li>打开 Cursor 设置</li>
-        <li>导航到 MCP Servers 部分</li>
-        <li>点击 "Add new MCP server"</li>
-        <li>输入服务器名称和 SSE 端点 URL: <code>${baseUrl}/sse</code></li>
-      </ol>
-      
-      <h2>可用工具</h2>
       ${toolsHtml}
-      
+
       <h2>使用示例</h2>
       <p>连接到服务器后，您可以在 Cursor 中使用这些工具（工具名会自动加上 mcp__ 前缀）。按如下方式进行验证：</p>
       <pre>你可以使用哪些 mcp 工具</pre>
       <pre>请帮我验证下 mcp__XXX 工具</pre>
+      <script>${PLAYGROUND_SCRIPT}</script>
     </body>
     </html>
     `;
+}
+
+// ==================== 主程序 ====================
+
+/**
+ * 以 stdio 方式运行单个服务器实例
+ */
+async function runStdio(): Promise<void> {
+  // stdio 由本机进程直接启动，视为管理员
+  const { server, cleanup } = createServer({ identity: { clientId: "local", admin: true } });
+
+  server.onclose = async () => {
+    await cleanup();
+    stopWatchingPlugins();
+  };
+
+  // 传输层不会在输入结束时关闭，插件目录的监听会让进程一直运行
+  process.stdin.on("end", () => server.close());
+
+  await server.connect(new StdioServerTransport());
+  logger.info("MCP 服务器已通过 stdio 启动");
+}
+
+/**
+ * 以 HTTP 方式运行（SSE 或 Streamable HTTP），每个会话独立创建服务器实例
+ */
+function runHttp(options: ServerOptions): void {
+  const app = express();
+  defaultPublicBaseUrl = `http://localhost:${options.port}`;
+
+  // 添加根路由，返回使用说明页面
+  app.get("/", (req, res) => {
+    // 获取主机信息，如果没有则默认使用 localhost
+    const host = req.headers.host || `localhost:${options.port}`;
+    const protocol = req.headers['x-forwarded-proto'] || 'https';
+    const baseUrl = `${protocol}://${host}`;
 
     res.setHeader('Content-Type', 'text/html; charset=utf-8');
-    res.send(html);
+    res.send(renderLandingPage(options, baseUrl));
   });
 
-  app.get("/sse", async (req, res) => {
-    transport = new SSEServerTransport("/message", res);
-    await server.connect(transport);
+  // 演练场调用工具，与 MCP 客户端共用认证、配置档、调用限制和审计日志
+  app.post("/playground/invoke", requireAuth(options.auth), express.json({ limit: "10mb" }), async (req, res) => {
+    const identity: ClientIdentity = res.locals.identity;
+    const { tool, arguments: args } = req.body ?? {};
+    if (typeof tool !== "string" || (args !== undefined && (typeof args !== "object" || args === null || Array.isArray(args)))) {
+      res.status(400).json({ error: "请求体应为 { tool: string, arguments?: object }" });
+      return;
+    }
 
-    server.onclose = async () => {
-      await cleanup();
-      await server.close();
-      process.exit(0);
-    };
+    // 页面关闭或刷新时中止仍在执行的调用
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableFinished) controller.abort();
+    });
+
+    try {
+      res.json(await toolRegistry.handleToolCall(tool, args ?? {}, {
+        clientId: identity.clientId,
+        identity,
+        signal: controller.signal,
+        // 普通 HTTP 请求无法推送通知
+        sendNotification: () => Promise.resolve(),
+      }));
+    } catch (error) {
+      logger.error("演练场调用失败", { tool, error });
+      res.status(500).json({ error: "调用失败" });
+    }
+  });
+
+  // 存活检查：进程能响应即视为存活
+  app.get("/healthz", (_req, res) => {
+    res.json({ status: "ok", uptime: Math.round((Date.now() - processStartTime) / 1000) });
+  });
+
+  // 就绪检查：依赖的 KV 可读写才接收流量
+  app.get("/readyz", async (_req, res) => {
+    try {
+      await checkKvHealth();
+      res.json({ status: "ready", checks: { kv: "ok" } });
+    } catch (error) {
+      logger.warn("就绪检查失败", { error });
+      res.status(503).json({
+        status: "unavailable",
+        checks: { kv: error instanceof Error ? error.message : String(error) },
+      });
+    }
+  });
+
+  // Prometheus 文本格式的监控指标
+  app.get("/metrics", (_req, res) => {
+    res.setHeader("Content-Type", "text/plain; version=0.0.4; charset=utf-8");
+    res.send(renderMetrics());
+  });
+
+  // 审计记录查询与导出，format=jsonl 时以附件形式下载
+  app.get("/audit", requireAuth(options.auth), async (req, res) => {
+    const identity: ClientIdentity = res.locals.identity;
+    const param = (name: string) => typeof req.query[name] === "string" ? req.query[name] as string : undefined;
+    const clientId = param("client");
+    if (!canReadAuditOf(identity, clientId)) {
+      res.status(403).json({ error: "需要管理员权限才能查询其他客户端的审计记录" });
+      return;
+    }
+
+    let query: AuditQuery;
+    try {
+      const outcome = param("outcome");
+      if (outcome !== undefined && !AUDIT_OUTCOMES.includes(outcome as AuditRecord["outcome"])) {
+        throw new Error(`outcome 取值应为 ${AUDIT_OUTCOMES.join(", ")} 之一`);
+      }
+      const limit = Number(param("limit") ?? AUDIT_MAX_EXPORT);
+      if (!Number.isInteger(limit) || limit < 1 || limit > AUDIT_MAX_EXPORT) {
+        throw new Error(`limit 应为 1 到 ${AUDIT_MAX_EXPORT} 之间的整数`);
+      }
+      const from = param("from");
+      const to = param("to");
+      query = {
+        tool: param("tool"),
+        clientId: identity.admin ? clientId : identity.clientId,
+        from: from === undefined ? undefined : parseAuditTime(from),
+        to: to === undefined ? undefined : parseAuditTime(to),
+        outcome: outcome as AuditRecord["outcome"] | undefined,
+        limit,
+      };
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+
+    try {
+      const records = await queryAuditLog(query);
+      if (param("format") === "jsonl") {
+        res.setHeader("Content-Type", "application/x-ndjson; charset=utf-8");
+        res.setHeader("Content-Disposition", `attachment; filename="audit-${new Date().toISOString().slice(0, 10)}.jsonl"`);
+        res.send(formatAuditRecords(records, "jsonl"));
+      } else {
+        res.json(records);
+      }
+    } catch (error) {
+      logger.error("查询审计记录失败", { error });
+      res.status(500).json({ error: "查询审计记录失败" });
+    }
+  });
+
+  // local 发布后端的内容访问
+  app.get("/p/:name", async (req, res) => {
+    const key = req.params.name.split(".")[0];
+    const record = await getPublication(key);
+    if (!record || record.backend !== "local") {
+      res.status(404).send("内容不存在");
+      return;
+    }
+
+    try {
+      const content = await Deno.readTextFile(await localPublishPath(record.remoteId ?? key));
+      res.setHeader("Content-Type", contentTypeForSuffix(record.suffix));
+      // 内容由客户端提供且与首页同源，以沙箱方式展示，脚本无法读取本站的存储和凭据
+      res.setHeader("Content-Security-Policy", "sandbox");
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.send(content);
+    } catch (error) {
+      logger.warn("读取发布内容失败", { key, error });
+      res.status(404).send("内容不存在");
+    }
   });
 
-  app.post("/message", async (req, res) => {
-    await transport.handlePostMessage(req, res);
+  if (options.transport === "http") {
+    mountStreamableHttpTransport(app, options.auth);
+  } else {
+    mountSseTransport(app, options.auth);
+  }
+
+  if (options.auth === "api-key") {
+    hasActiveApiKeys().then(active => {
+      if (!active) {
+        logger.warn("尚未签发 API 密钥，所有 MCP 请求都将被拒绝。可运行 `keys issue --label <名称> --admin` 签发");
+      }
+    }).catch(error => logger.error("读取 API 密钥失败", { error }));
+  } else {
+    logger.warn("已关闭认证，任何能访问此端口的客户端都可以调用全部工具");
+  }
+
+  app.listen(options.port, () => {
+    logger.info("MCP 服务器已启动", { transport: options.transport, port: options.port, auth: options.auth });
   });
+}
+
+/**
+ * 执行 API 密钥管理命令，结果输出到标准输出
+ */
+async function runKeyCommand(command: KeyCommand): Promise<void> {
+  if (command.action === "issue") {
+    const { key, record } = await issueApiKey(command.label, { clientId: command.clientId, admin: command.admin });
+    console.log(JSON.stringify({ key, ...describeApiKey(record) }, null, 2));
+  } else if (command.action === "revoke") {
+    console.log(JSON.stringify(describeApiKey(await revokeApiKey(command.id)), null, 2));
+  } else {
+    console.log(JSON.stringify((await listApiKeys()).map(describeApiKey), null, 2));
+  }
+}
+
+/**
+ * 主程序入口
+ */
+async function main() {
+  const options = parseOptions();
+  if (options.keyCommand) {
+    await runKeyCommand(options.keyCommand);
+    return;
+  }
+  if (options.config) {
+    serverConfig = await loadServerConfig(options.config);
+    configureHttpClient(serverConfig.http);
+  }
+  if (options.promptsDir) {
+    customPrompts = await loadPromptTemplates(options.promptsDir);
+    logger.info("已加载提示词模板", { dir: options.promptsDir, count: customPrompts.length });
+  }
+  for (const plugin of options.plugins) {
+    await loadPlugin(plugin);
+  }
+  if (options.pluginsDir) {
+    await loadPluginsDir(options.pluginsDir);
+    watchPluginsDir(options.pluginsDir);
+  }
+  validateToolConfig(serverConfig, toolRegistry.getHandlers());
 
-  const PORT = Deno.env.get("PORT") || 3001;
-  app.listen(Number(PORT));
+  startPublicationSweeper();
+  startAuditSweeper();
+
+  if (options.transport === "stdio") {
+    await runStdio();
+  } else {
+    runHttp(options);
+  }
 }
 
-// 启动服务器
-await main();
\ No newline at end of file
+// 作为入口运行时启动服务器，被测试导入时不启动
+if (import.meta.main) {
+  await main();
+}
\ No newline at end of file
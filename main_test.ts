@@ -0,0 +1,721 @@
+import { assert, assertEquals, assertMatch, assertRejects, assertStringIncludes, assertThrows } from "@std/assert";
+import {
+  acquireToolQuota,
+  allocatePublicationKey,
+  configureHttpClient,
+  formatNumberInBase,
+  getPublication,
+  getQuotaUsage,
+  HttpClient,
+  IMAGE_PROVIDERS,
+  lookupUnit,
+  parseDateInput,
+  parseNumberInBase,
+  purgeExpiredPublications,
+  quotaScope,
+  releaseToolQuota,
+  savePublication,
+  ToolRegistry,
+  twosComplementView,
+  validateSchema,
+} from "./main.ts";
+
+/**
+ * 记录请求的 fetch 替身，handler 按第几次调用返回响应或抛出网络错误
+ */
+function fakeFetch(handler: (request: Request, call: number) => Response | Promise<Response>) {
+  const calls: Request[] = [];
+  const fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+    const request = new Request(input, init);
+    calls.push(request);
+    return await handler(request, calls.length);
+  };
+  return { fetch: fetch as typeof globalThis.fetch, calls };
+}
+
+/**
+ * 直到请求被中止才结束的响应
+ */
+function untilAborted(request: Request): Promise<Response> {
+  return new Promise((_resolve, reject) => {
+    request.signal.addEventListener("abort", () => reject(request.signal.reason), { once: true });
+  });
+}
+
+// ==================== HTTP 客户端 ====================
+
+Deno.test("HttpClient: 503 按 Retry-After 重试后成功", async () => {
+  const { fetch, calls } = fakeFetch((_request, call) =>
+    call === 1 ? new Response("busy", { status: 503, headers: { "retry-after": "0" } }) : new Response("ok")
+  );
+  const client = new HttpClient({ fetch });
+
+  const response = await client.request("tiny-server", "https://tiny.test/abc");
+
+  assertEquals(response.status, 200);
+  assertEquals(await response.text(), "ok");
+  assertEquals(calls.length, 2);
+});
+
+Deno.test("HttpClient: 非幂等请求遇到网关错误不重试", async () => {
+  const { fetch, calls } = fakeFetch(() => new Response("bad gateway", { status: 502, headers: { "retry-after": "0" } }));
+  const client = new HttpClient({ fetch });
+
+  const response = await client.request("github", "https://api.github.test/gists", { method: "POST", body: "{}" });
+  await response.body?.cancel();
+
+  assertEquals(response.status, 502);
+  assertEquals(calls.length, 1);
+});
+
+Deno.test("HttpClient: 非幂等请求只在请求未被处理时重试", async () => {
+  const { fetch, calls } = fakeFetch((_request, call) =>
+    call === 1
+      ? new Response("slow down", { status: 429, headers: { "retry-after": "0" } })
+      : call === 2
+      ? new Response("busy", { status: 503, headers: { "retry-after": "0" } })
+      : new Response("created", { status: 201 })
+  );
+  const client = new HttpClient({ fetch });
+
+  const response = await client.request("openai", "https://openai.test/v1/images/generations", {
+    method: "POST",
+    body: "{}",
+  });
+  await response.body?.cancel();
+
+  assertEquals(response.status, 201);
+  assertEquals(calls.length, 3);
+});
+
+Deno.test("HttpClient: 重试次数用尽后返回最后的响应", async () => {
+  const { fetch, calls } = fakeFetch(() => new Response("busy", { status: 502, headers: { "retry-after": "0" } }));
+  const client = new HttpClient({ fetch, services: { github: { retries: 2 } } });
+
+  const response = await client.request("github", "https://api.github.test/user");
+  await response.body?.cancel();
+
+  assertEquals(response.status, 502);
+  assertEquals(calls.length, 3);
+});
+
+Deno.test("HttpClient: Retry-After 过长时不等待", async () => {
+  const { fetch, calls } = fakeFetch(() => new Response("slow down", { status: 429, headers: { "retry-after": "120" } }));
+  const client = new HttpClient({ fetch });
+
+  const response = await client.request("github", "https://api.github.test/user");
+  await response.body?.cancel();
+
+  assertEquals(response.status, 429);
+  assertEquals(calls.length, 1);
+});
+
+Deno.test("HttpClient: 不可重试的状态直接返回", async () => {
+  const { fetch, calls } = fakeFetch(() => new Response("missing", { status: 404 }));
+  const client = new HttpClient({ fetch });
+
+  const response = await client.request("github", "https://api.github.test/repos/o/r");
+  await response.body?.cancel();
+
+  assertEquals(response.status, 404);
+  assertEquals(calls.length, 1);
+});
+
+Deno.test("HttpClient: 网络错误只重试幂等请求", async () => {
+  const { fetch, calls } = fakeFetch(() => {
+    throw new TypeError("connection refused");
+  });
+  const client = new HttpClient({ fetch, services: { github: { retries: 1 } } });
+
+  await assertRejects(() => client.request("github", "https://api.github.test/user"), Error, "connection refused");
+  assertEquals(calls.length, 2);
+
+  calls.length = 0;
+  await assertRejects(
+    () => client.request("github", "https://api.github.test/gists", { method: "POST", body: "{}" }),
+    Error,
+    "connection refused",
+  );
+  assertEquals(calls.length, 1);
+});
+
+Deno.test("HttpClient: 单次请求超时", async () => {
+  const { fetch, calls } = fakeFetch(untilAborted);
+  const client = new HttpClient({ fetch, services: { gemini: { timeoutMs: 50, retries: 0 } } });
+
+  await assertRejects(
+    () => client.request("gemini", "https://gemini.test/models/m:generateContent", { method: "POST" }),
+    Error,
+    "超时（50ms）",
+  );
+  assertEquals(calls.length, 1);
+});
+
+Deno.test("HttpClient: 调用方取消时中止请求且不重试", async () => {
+  const { fetch, calls } = fakeFetch(untilAborted);
+  const client = new HttpClient({ fetch });
+  const controller = new AbortController();
+  setTimeout(() => controller.abort(), 20);
+
+  await assertRejects(
+    () => client.request("download", "https://cdn.test/image.png", { signal: controller.signal }),
+    Error,
+    "请求已取消",
+  );
+  assertEquals(calls.length, 1);
+});
+
+Deno.test("HttpClient: 已取消的 signal 会中断重试等待", async () => {
+  const controller = new AbortController();
+  const { fetch, calls } = fakeFetch(() => {
+    controller.abort();
+    return new Response("busy", { status: 503, headers: { "retry-after": "10" } });
+  });
+  const client = new HttpClient({ fetch });
+
+  await assertRejects(
+    () => client.request("tiny-server", "https://tiny.test/set", { method: "POST", signal: controller.signal }),
+    Error,
+    "请求已取消",
+  );
+  assertEquals(calls.length, 1);
+});
+
+Deno.test("HttpClient: 错误信息中的密钥打码", async () => {
+  const { fetch } = fakeFetch(() => {
+    throw new TypeError("failed to reach https://gemini.test/?key=AIzaSecretValue123");
+  });
+  const client = new HttpClient({ fetch, services: { gemini: { retries: 0 } } });
+
+  const error = await assertRejects(() =>
+    client.request("gemini", "https://gemini.test/?key=AIzaSecretValue123", {
+      headers: { "x-goog-api-key": "AIzaSecretValue123" },
+    })
+  );
+
+  assert(!error.message.includes("AIzaSecretValue123"), error.message);
+  assertStringIncludes(error.message, "[REDACTED]");
+});
+
+// ==================== 发布管理 ====================
+
+/**
+ * 只实现 exists 的发布后端替身，按第几次调用返回 key 是否已被占用
+ */
+function fakePublisher(exists: (key: string, call: number) => boolean) {
+  const checked: string[] = [];
+  const unsupported = () => Promise.reject(new Error("测试中不应调用"));
+  return {
+    checked,
+    publisher: {
+      name: "local" as const,
+      description: "测试用发布后端",
+      exists: (key: string) => {
+        checked.push(key);
+        return Promise.resolve(exists(key, checked.length));
+      },
+      publish: unsupported,
+      remove: unsupported,
+      read: unsupported,
+    },
+  };
+}
+
+/**
+ * 保存一条 local 后端的发布记录
+ */
+async function saveLocalPublication(key: string, expiresAt?: number) {
+  const now = Date.now();
+  await savePublication({
+    key,
+    suffix: ".txt",
+    url: `http://localhost/p/${key}.txt`,
+    backend: "local",
+    remoteId: key,
+    clientId: "test-client",
+    createdAt: now,
+    updatedAt: now,
+    expiresAt,
+  });
+}
+
+Deno.test({
+  name: "allocatePublicationKey: 自定义 key 已有记录或在后端已存在时拒绝",
+  sanitizeResources: false,
+  fn: async () => {
+    const taken = `test-${crypto.randomUUID()}`;
+    await saveLocalPublication(taken, Date.now());
+    const { publisher } = fakePublisher(key => key === "test-remote");
+
+    await assertRejects(() => allocatePublicationKey(publisher, "test-client", ".txt", taken), Error, "key 已被占用");
+    await assertRejects(
+      () => allocatePublicationKey(publisher, "test-client", ".txt", "test-remote"),
+      Error,
+      "key 已被占用",
+    );
+    assertEquals(await allocatePublicationKey(publisher, "test-client", ".txt", "test-free"), "test-free");
+  },
+});
+
+Deno.test({
+  name: "allocatePublicationKey: 随机 key 冲突时重新生成",
+  sanitizeResources: false,
+  fn: async () => {
+    const { publisher, checked } = fakePublisher((_key, call) => call < 3);
+
+    const key = await allocatePublicationKey(publisher, "test-client", ".txt");
+
+    assertEquals(checked.length, 3);
+    assertEquals(key, checked[2]);
+    assertMatch(key, /^[a-z0-9]{6}$/);
+  },
+});
+
+Deno.test({
+  name: "allocatePublicationKey: 多次冲突后放弃",
+  sanitizeResources: false,
+  fn: async () => {
+    const { publisher, checked } = fakePublisher(() => true);
+
+    await assertRejects(() => allocatePublicationKey(publisher, "test-client", ".txt"), Error, "无法生成未被占用的 key");
+    assertEquals(checked.length, 5);
+  },
+});
+
+Deno.test({
+  name: "purgeExpiredPublications: 删除过期内容和记录，保留未过期的",
+  sanitizeResources: false,
+  fn: async () => {
+    const dir = await Deno.makeTempDir();
+    const previousDir = Deno.env.get("PUBLISH_DIR");
+    Deno.env.set("PUBLISH_DIR", dir);
+    try {
+      const expired = `test-${crypto.randomUUID()}`;
+      const alive = `test-${crypto.randomUUID()}`;
+      await Deno.writeTextFile(`${dir}/${expired}`, "old");
+      await Deno.writeTextFile(`${dir}/${alive}`, "new");
+      await saveLocalPublication(expired, Date.now() - 1000);
+      await saveLocalPublication(alive, Date.now() + 60_000);
+
+      await purgeExpiredPublications();
+
+      assertEquals(await getPublication(expired), null);
+      await assertRejects(() => Deno.stat(`${dir}/${expired}`), Deno.errors.NotFound);
+      assertEquals((await getPublication(alive))?.key, alive);
+      assertEquals(await Deno.readTextFile(`${dir}/${alive}`), "new");
+    } finally {
+      if (previousDir === undefined) Deno.env.delete("PUBLISH_DIR");
+      else Deno.env.set("PUBLISH_DIR", previousDir);
+      await Deno.remove(dir, { recursive: true });
+    }
+  },
+});
+
+// ==================== 图片生成服务 ====================
+
+const PNG_BASE64 = "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==";
+
+// 服务会读取 KV 中的客户端配置，KV 连接在测试之间复用
+const providerTest = { sanitizeResources: false };
+
+Deno.test({
+  ...providerTest,
+  name: "gemini: 按 count 多次请求服务器配置的地址并解析图片和文本",
+  fn: async () => {
+    Deno.env.set("GEMINI_API_KEY", "gemini-test-key");
+    Deno.env.set("GEMINI_BASE_URL", "https://gemini.test/v1beta/");
+    Deno.env.set("GEMINI_IMAGE_MODEL", "image-model");
+    const { fetch, calls } = fakeFetch(() =>
+      Response.json({
+        candidates: [{
+          content: { parts: [{ text: "一只猫" }, { inlineData: { mimeType: "image/png", data: PNG_BASE64 } }] },
+        }],
+      })
+    );
+    configureHttpClient({ fetch });
+
+    const result = await IMAGE_PROVIDERS.gemini.generate({ prompt: "画一只猫", count: 2 }, "provider-test");
+
+    assertEquals(calls.length, 2);
+    assertEquals(calls[0].method, "POST");
+    assertEquals(calls[0].url, "https://gemini.test/v1beta/models/image-model:generateContent");
+    assertEquals(calls[0].headers.get("x-goog-api-key"), "gemini-test-key");
+    assertEquals((await calls[0].json()).contents[0].parts[0].text, "画一只猫");
+    assertEquals(result.images, [
+      { data: PNG_BASE64, mimeType: "image/png" },
+      { data: PNG_BASE64, mimeType: "image/png" },
+    ]);
+    assertEquals(result.text, ["一只猫", "一只猫"]);
+  },
+});
+
+Deno.test({
+  ...providerTest,
+  name: "gemini: 接口错误状态转为错误",
+  fn: async () => {
+    Deno.env.set("GEMINI_API_KEY", "gemini-test-key");
+    const { fetch } = fakeFetch(() => new Response("forbidden", { status: 403, statusText: "Forbidden" }));
+    configureHttpClient({ fetch });
+
+    await assertRejects(
+      () => IMAGE_PROVIDERS.gemini.generate({ prompt: "画一只猫", count: 1 }, "provider-test"),
+      Error,
+      "API 请求失败: 403",
+    );
+  },
+});
+
+Deno.test({
+  ...providerTest,
+  name: "openai: 解析 b64_json 并下载同源的图片地址",
+  fn: async () => {
+    Deno.env.set("OPENAI_API_KEY", "openai-test-key");
+    Deno.env.set("OPENAI_BASE_URL", "https://openai.test/v1");
+    Deno.env.set("OPENAI_IMAGE_MODEL", "gpt-image-1");
+    const png = Uint8Array.from(atob(PNG_BASE64), c => c.charCodeAt(0));
+    const { fetch, calls } = fakeFetch((request) =>
+      request.url.endsWith("/images/generations")
+        ? Response.json({
+          data: [{ b64_json: PNG_BASE64, revised_prompt: "一只橘猫" }, { url: "https://openai.test/files/cat.png" }],
+        })
+        : new Response(png)
+    );
+    configureHttpClient({ fetch });
+
+    const result = await IMAGE_PROVIDERS.openai.generate({ prompt: "画一只猫", count: 2, size: "1024x1024" }, "provider-test");
+
+    assertEquals(calls.map(request => request.url), [
+      "https://openai.test/v1/images/generations",
+      "https://openai.test/files/cat.png",
+    ]);
+    assertEquals(calls[0].headers.get("authorization"), "Bearer openai-test-key");
+    assertEquals(await calls[0].json(), { model: "gpt-image-1", prompt: "画一只猫", n: 2, size: "1024x1024" });
+    assertEquals(result.images.map(image => image.mimeType), ["image/png", "image/png"]);
+    assertEquals(result.text, ["一只橘猫"]);
+  },
+});
+
+Deno.test({
+  ...providerTest,
+  name: "openai: 拒绝下载其他源的图片地址",
+  fn: async () => {
+    Deno.env.set("OPENAI_API_KEY", "openai-test-key");
+    Deno.env.set("OPENAI_BASE_URL", "https://openai.test/v1");
+    const { fetch, calls } = fakeFetch(() => Response.json({ data: [{ url: "http://169.254.169.254/latest/meta-data" }] }));
+    configureHttpClient({ fetch });
+
+    await assertRejects(
+      () => IMAGE_PROVIDERS.openai.generate({ prompt: "画一只猫", count: 1 }, "provider-test"),
+      Error,
+      "图片地址不在 https://openai.test 下",
+    );
+    assertEquals(calls.length, 1);
+  },
+});
+
+// ==================== 日期时间 ====================
+
+Deno.test("parseDateInput: 按时区解析本地时间", () => {
+  assertEquals(parseDateInput("2024-07-01 12:00", "America/Los_Angeles"), Date.parse("2024-07-01T19:00:00Z"));
+  assertEquals(parseDateInput("2024-01-15T08:00", "Asia/Shanghai"), Date.parse("2024-01-15T00:00:00Z"));
+});
+
+Deno.test("parseDateInput: 夏令时开始时不存在的时刻向后顺延", () => {
+  // 02:30 不存在，顺延为 03:30 PDT
+  assertEquals(parseDateInput("2024-03-10T02:30", "America/Los_Angeles"), Date.parse("2024-03-10T03:30:00-07:00"));
+  assertEquals(parseDateInput("2024-03-31T02:30", "Europe/Berlin"), Date.parse("2024-03-31T03:30:00+02:00"));
+});
+
+Deno.test("parseDateInput: 夏令时结束时重复的时刻取较早的一个", () => {
+  assertEquals(parseDateInput("2024-11-03T01:30", "America/Los_Angeles"), Date.parse("2024-11-03T01:30:00-07:00"));
+  assertEquals(parseDateInput("2024-10-27T02:30", "Europe/Berlin"), Date.parse("2024-10-27T02:30:00+02:00"));
+});
+
+// ==================== 进制转换 ====================
+
+Deno.test("parseNumberInBase: 超出 Number 精度的整数不丢失", () => {
+  const value = parseNumberInBase("0xFFFF_FFFF_FFFF_FFFF_FF");
+
+  assertEquals(value.base, 16);
+  assertEquals(value.integer, (1n << 72n) - 1n);
+  assertEquals(formatNumberInBase(value, 10, 20), { text: "4722366482869645213695", truncated: false });
+});
+
+Deno.test("parseNumberInBase: 报告无效字符的位置和前缀冲突", () => {
+  assertThrows(() => parseNumberInBase("12a4"), Error, "第 3 个字符");
+  assertThrows(() => parseNumberInBase("0x1F", 2), Error, "前缀 0x 表示 16 进制，与 fromBase=2 不一致");
+  assertThrows(() => parseNumberInBase("1.2.3"), Error, "多余的小数点");
+});
+
+Deno.test("formatNumberInBase: 转换小数部分并标记截断", () => {
+  assertEquals(formatNumberInBase(parseNumberInBase("0b0.101"), 10, 20), { text: "0.625", truncated: false });
+  assertEquals(formatNumberInBase(parseNumberInBase("-0x1.8"), 10, 20), { text: "-1.5", truncated: false });
+  assertEquals(formatNumberInBase(parseNumberInBase("0.1"), 2, 8), { text: "0.00011001", truncated: true });
+  assertEquals(formatNumberInBase(parseNumberInBase("-0"), 16, 8), { text: "0", truncated: false });
+});
+
+Deno.test("twosComplementView: 负数按补码表示", () => {
+  const view = twosComplementView(parseNumberInBase("-1"), 8);
+
+  assertEquals(view.unsigned, "255");
+  assertEquals(view.signed, "-1");
+  assertEquals(view.binary, "1111_1111");
+  assertEquals(view.hex, "0xFF");
+  assertEquals(view.octal, "0o377");
+});
+
+Deno.test("twosComplementView: 无符号值按位宽解释为有符号数", () => {
+  assertEquals(twosComplementView(parseNumberInBase("200"), 8).signed, "-56");
+  assertEquals(twosComplementView(parseNumberInBase("0x8000_0000_0000_0000"), 64).signed, "-9223372036854775808");
+});
+
+Deno.test("twosComplementView: 拒绝超出位宽和带小数的值", () => {
+  assertThrows(() => twosComplementView(parseNumberInBase("256"), 8), Error, "超出 8 位可表示的范围");
+  assertThrows(() => twosComplementView(parseNumberInBase("-129"), 8), Error, "超出 8 位可表示的范围");
+  assertThrows(() => twosComplementView(parseNumberInBase("1.5"), 8), Error, "只支持整数");
+});
+
+// ==================== 单位换算 ====================
+
+Deno.test("lookupUnit: 忽略大小写匹配单位名称", () => {
+  assertEquals(lookupUnit("KM")?.symbol, "km");
+  assertEquals(lookupUnit("kwh")?.symbol, "kWh");
+  assertEquals(lookupUnit("Millimeter")?.symbol, "mm");
+});
+
+Deno.test("lookupUnit: 词头大小写不同的符号不做模糊匹配", () => {
+  assertEquals(lookupUnit("mm")?.factor, 0.001);
+  assertEquals(lookupUnit("Mm")?.factor, 1e6);
+  assertEquals(lookupUnit("MM"), undefined);
+  assertEquals(lookupUnit("Mg"), undefined);
+  assertEquals(lookupUnit("Ms"), undefined);
+  assertEquals(lookupUnit("ML"), undefined);
+});
+
+Deno.test("lookupUnit: 区分字节与比特", () => {
+  assertEquals(lookupUnit("MB")?.factor, 1e6);
+  assertEquals(lookupUnit("Mb")?.factor, 1e6 / 8);
+  assertEquals(lookupUnit("kB")?.factor, 1e3);
+  assertEquals(lookupUnit("kb")?.factor, 1e3 / 8);
+  assertEquals(lookupUnit("Gb")?.symbol, "Gbit");
+  assertEquals(lookupUnit("Tb")?.symbol, "Tbit");
+  // 只有大小写不同的名称无法判断是字节还是比特
+  assertEquals(lookupUnit("mb"), undefined);
+  assertEquals(lookupUnit("gb"), undefined);
+});
+
+// ==================== 参数校验 ====================
+
+const greetSchema = {
+  type: "object",
+  properties: {
+    name: { type: "string", minLength: 1 },
+    times: { type: "integer", minimum: 1, default: 1 },
+    options: {
+      type: "object",
+      properties: { tags: { type: "array", items: { type: "string" }, default: ["a"] } },
+    },
+  },
+  required: ["name"],
+};
+
+Deno.test("validateSchema: 填充缺省参数的默认值", () => {
+  const issues: { path: string; message: string }[] = [];
+  const result = validateSchema(greetSchema, { name: "x", options: {} }, "", issues, true);
+
+  assertEquals(issues, []);
+  assertEquals(result, { name: "x", times: 1, options: { tags: ["a"] } });
+});
+
+Deno.test("validateSchema: 默认值不与 schema 共享引用", () => {
+  const first = validateSchema(greetSchema, { name: "x", options: {} }, "", [], true) as {
+    options: { tags: string[] };
+  };
+  first.options.tags.push("b");
+  const second = validateSchema(greetSchema, { name: "x", options: {} }, "", [], true);
+
+  assertEquals(second, { name: "x", times: 1, options: { tags: ["a"] } });
+});
+
+Deno.test("validateSchema: 未声明 additionalProperties 时按 rejectUnknown 处理未知属性", () => {
+  const strict: { path: string; message: string }[] = [];
+  validateSchema(greetSchema, { name: "x", extra: 1 }, "", strict, true);
+  assertEquals(strict, [{ path: "extra", message: "未知参数" }]);
+
+  const lenient: { path: string; message: string }[] = [];
+  const result = validateSchema(greetSchema, { name: "x", extra: 1 }, "", lenient);
+  assertEquals(lenient, []);
+  assertEquals(result, { name: "x", times: 1, extra: 1 });
+});
+
+Deno.test("validateSchema: 列出所有不合法的字段", () => {
+  const issues: { path: string; message: string }[] = [];
+  validateSchema(greetSchema, { times: 0, options: { tags: ["ok", 2] }, extra: true }, "", issues, true);
+
+  assertEquals(issues.map(issue => issue.path).sort(), ["extra", "name", "options.tags[1]", "times"]);
+});
+
+/**
+ * 注册一个记录收到参数的测试工具
+ */
+function createGreetRegistry() {
+  const received: Record<string, unknown>[] = [];
+  const registry = new ToolRegistry();
+  registry.register({
+    tool: { name: "test-greet", description: "测试工具", inputSchema: { ...greetSchema, type: "object" } },
+    handler: args => {
+      received.push(args);
+      return Promise.resolve({ content: [{ type: "text", text: "ok" }] });
+    },
+  });
+  const origin = {
+    clientId: "test-client",
+    identity: { clientId: "test-client", admin: false },
+    signal: new AbortController().signal,
+    sendNotification: () => Promise.resolve(),
+  };
+  return { registry, received, origin };
+}
+
+Deno.test({
+  name: "ToolRegistry.handleToolCall: 校验通过后以填充默认值的参数调用工具",
+  sanitizeResources: false,
+  fn: async () => {
+    const { registry, received, origin } = createGreetRegistry();
+
+    const result = await registry.handleToolCall("test-greet", { name: "x" }, origin);
+
+    assert(!result.isError);
+    assertEquals(received, [{ name: "x", times: 1 }]);
+  },
+});
+
+Deno.test({
+  name: "ToolRegistry.handleToolCall: 校验失败时不调用工具并返回全部问题",
+  sanitizeResources: false,
+  fn: async () => {
+    const { registry, received, origin } = createGreetRegistry();
+
+    const result = await registry.handleToolCall("test-greet", { times: "2", extra: 1 }, origin);
+
+    assert(result.isError);
+    assertEquals(received, []);
+    const { error, issues } = JSON.parse((result.content[0] as { text: string }).text);
+    assertEquals(error, "参数校验失败");
+    assertEquals(issues.map((issue: { path: string }) => issue.path).sort(), ["extra", "name", "times"]);
+  },
+});
+
+// ==================== 调用限额 ====================
+
+/**
+ * KV 中的计数会保留到窗口结束，每个测试使用独立的计数对象
+ */
+function uniqueSubject(): string {
+  return `test-${crypto.randomUUID()}`;
+}
+
+/**
+ * 创建使用给定额度分组的空工具
+ */
+function quotaTool(name: string, quotaGroup?: string) {
+  return {
+    tool: { name, inputSchema: { type: "object" as const } },
+    handler: () => Promise.resolve({ content: [] }),
+    quotaGroup,
+  };
+}
+
+Deno.test({
+  name: "acquireToolQuota: 按天计数，超出后拒绝",
+  sanitizeResources: false,
+  fn: async () => {
+    const subject = uniqueSubject();
+    const limits = { perDay: 2 };
+
+    for (let i = 0; i < 2; i++) {
+      assertEquals(await acquireToolQuota(subject, "test-tool", limits), null);
+      releaseToolQuota(subject, "test-tool");
+    }
+    const denial = await acquireToolQuota(subject, "test-tool", limits);
+
+    assertEquals(denial?.limit, "perDay");
+    assertEquals(denial?.max, 2);
+    const usage = await getQuotaUsage(subject, "test-tool", limits);
+    assertEquals(usage.perDay?.used, 2);
+    assertEquals(usage.perDay?.remaining, 0);
+  },
+});
+
+Deno.test({
+  name: "acquireToolQuota: 超出每分钟限制时 retryAfter 指向窗口结束",
+  sanitizeResources: false,
+  fn: async () => {
+    const subject = uniqueSubject();
+    const limits = { perMinute: 1 };
+
+    assertEquals(await acquireToolQuota(subject, "test-tool", limits), null);
+    releaseToolQuota(subject, "test-tool");
+    const denial = await acquireToolQuota(subject, "test-tool", limits);
+
+    assertEquals(denial?.limit, "perMinute");
+    assert(denial !== null && denial.retryAfter >= 1 && denial.retryAfter <= 60, `retryAfter: ${denial?.retryAfter}`);
+  },
+});
+
+Deno.test({
+  name: "quotaScope: 同一 quotaGroup 的工具共用计数",
+  sanitizeResources: false,
+  fn: async () => {
+    const identity = { clientId: uniqueSubject(), admin: false };
+    const first = quotaScope(quotaTool("test-a", "test-group"), identity);
+    const second = quotaScope(quotaTool("test-b", "test-group"), identity);
+    assertEquals(first, second);
+    assertEquals(quotaScope(quotaTool("test-c"), identity).group, "test-c");
+
+    const limits = { perDay: 1 };
+    assertEquals(await acquireToolQuota(first.subject, first.group, limits), null);
+    releaseToolQuota(first.subject, first.group);
+
+    assertEquals((await acquireToolQuota(second.subject, second.group, limits))?.limit, "perDay");
+  },
+});
+
+Deno.test("quotaScope: 设置了 quotaSubject 时不按自报的 clientId 计数", () => {
+  const scope = quotaScope(quotaTool("test-a"), { clientId: "spoofed", admin: false, quotaSubject: "ip:127.0.0.1" });
+
+  assertEquals(scope, { subject: "ip:127.0.0.1", group: "test-a" });
+});
+
+Deno.test({
+  name: "acquireToolQuota: 并发名额在释放后可再次占用",
+  sanitizeResources: false,
+  fn: async () => {
+    const subject = uniqueSubject();
+    const limits = { concurrent: 1 };
+
+    assertEquals(await acquireToolQuota(subject, "test-tool", limits), null);
+    assertEquals(await acquireToolQuota(subject, "test-tool", limits), { limit: "concurrent", max: 1, retryAfter: 1 });
+    assertEquals((await getQuotaUsage(subject, "test-tool", limits)).concurrent?.active, 1);
+
+    releaseToolQuota(subject, "test-tool");
+    assertEquals((await getQuotaUsage(subject, "test-tool", limits)).concurrent?.active, 0);
+    assertEquals(await acquireToolQuota(subject, "test-tool", limits), null);
+    releaseToolQuota(subject, "test-tool");
+  },
+});
+
+Deno.test({
+  name: "acquireToolQuota: 被计数拒绝时归还已占用的并发名额",
+  sanitizeResources: false,
+  fn: async () => {
+    const subject = uniqueSubject();
+    const limits = { concurrent: 1, perDay: 1 };
+
+    assertEquals(await acquireToolQuota(subject, "test-tool", limits), null);
+    releaseToolQuota(subject, "test-tool");
+    assertEquals((await acquireToolQuota(subject, "test-tool", limits))?.limit, "perDay");
+
+    assertEquals((await getQuotaUsage(subject, "test-tool", limits)).concurrent?.active, 0);
+  },
+});